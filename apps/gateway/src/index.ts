@@ -10,10 +10,10 @@ import { connectMumbleServer } from './mumble.js'
 import { debugError, debugLog } from './debug.js'
 import { errorSummary, serializeError } from './error-utils.js'
 import { safeJsonParse, sendJson } from './ws.js'
-import type { GatewayClientMessage, GatewayServerMessage, ServerConfig } from './types.js'
-import { VOICE_UPLINK_END, VOICE_UPLINK_OPUS, decodeUplinkVoiceMessage, encodeDownlinkOpus } from './voice-protocol.js'
+import type { AclEntry, BanEntry, GatewayClientMessage, GatewayServerMessage, ServerConfig } from './types.js'
+import { VOICE_UPLINK_END, VOICE_UPLINK_OPUS, decodeUplinkVoiceMessage, encodeDownlinkOpus, opusPacketDurationMs } from './voice-protocol.js'
 
-type UplinkPacerItem = { type: 'opus'; target: number; opus: Buffer } | { type: 'end'; target: number }
+type UplinkPacerItem = { type: 'opus'; target: number; opus: Buffer; durationMs: number } | { type: 'end'; target: number }
 
 type Session = {
   serverId: string
@@ -23,6 +23,9 @@ type Session = {
   uplinkPacer: {
     queue: UplinkPacerItem[]
     timer: NodeJS.Timeout | null
+    // When the next frame is due; frames go out one packet duration apart.
+    nextSendAtMs: number
+    lastDurationMs: number
     lastEnqueueAtMs: number
     lastTarget: number
     droppedFramesTotal: number
@@ -45,6 +48,8 @@ type Session = {
 
 const PORT = Number(process.env.PORT ?? 64737)
 
+// Pacing follows each packet's own duration (10-60 ms); this is the fallback for packets whose TOC can't be read.
+// Set it to 0 to forward uplink frames unpaced.
 const VOICE_UPLINK_PACING_INTERVAL_MS = Number(process.env.VOICE_UPLINK_PACING_INTERVAL_MS ?? 20)
 const VOICE_UPLINK_PACING_ENABLED = Number.isFinite(VOICE_UPLINK_PACING_INTERVAL_MS) && VOICE_UPLINK_PACING_INTERVAL_MS > 0
 const rawMaxQueueFrames = Number(process.env.VOICE_UPLINK_PACING_MAX_QUEUE_FRAMES ?? 200)
@@ -52,6 +57,10 @@ const VOICE_UPLINK_PACING_MAX_QUEUE_FRAMES = Number.isFinite(rawMaxQueueFrames)
 const rawIdleTimeoutMs = Number(process.env.VOICE_UPLINK_PACING_IDLE_TIMEOUT_MS ?? 250)
 const VOICE_UPLINK_PACING_IDLE_TIMEOUT_MS = Number.isFinite(rawIdleTimeoutMs) ? Math.max(50, Math.min(5000, rawIdleTimeoutMs)) : 250
 
+// Murmur drops plugin messages with more than 1000 bytes of data or a data id longer than 100 characters.
+const PLUGIN_DATA_MAX_BYTES = 1000
+const PLUGIN_DATA_ID_MAX_LENGTH = 100
+
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
 
@@ -108,11 +117,14 @@ function sendMetrics(ws: WebSocket, session: Session) {
 
   if (VOICE_UPLINK_PACING_ENABLED) {
     let queuedFrames = 0
+    let queuedMs = 0
     for (const item of session.uplinkPacer.queue) {
-      if (item.type === 'opus') queuedFrames += 1
+      if (item.type !== 'opus') continue
+      queuedFrames += 1
+      queuedMs += item.durationMs
     }
     msg.voiceUplinkPacerQueueFrames = queuedFrames
-    msg.voiceUplinkPacerQueueMs = queuedFrames * VOICE_UPLINK_PACING_INTERVAL_MS
+    msg.voiceUplinkPacerQueueMs = queuedMs
     msg.voiceUplinkPacerDroppedFramesTotal = session.uplinkPacer.droppedFramesTotal
   }
 
@@ -145,15 +157,63 @@ function sendMetrics(ws: WebSocket, session: Session) {
   sendJson(ws, msg)
 }
 
+const CLIENT_MESSAGE_TYPES: ReadonlySet<string> = new Set<GatewayClientMessage['type']>([
+  'connect',
+  'disconnect',
+  'joinChannel',
+  'textSend',
+  'channelCreate',
+  'channelUpdate',
+  'channelRemove',
+  'setSelfMute',
+  'setSelfDeaf',
+  'setVoiceTarget',
+  'userKick',
+  'userBan',
+  'userModerate',
+  'registerSelf',
+  'queryAcl',
+  'queryPermissions',
+  'updateAcl',
+  'banListQuery',
+  'banListUpdate',
+  'userListQuery',
+  'userListUpdate',
+  'resolveUsers',
+  'requestBlob',
+  'setSelfComment',
+  'setSelfTexture',
+  'userStatsQuery',
+  'contextAction',
+  'pluginDataSend',
+  'setPosition',
+  'setPluginContext',
+  'ping'
+])
+
 function assertClientMessage(msg: unknown): GatewayClientMessage | null {
   if (!msg || typeof msg !== 'object') return null
   const type = (msg as any).type
-  if (type === 'connect' || type === 'disconnect' || type === 'joinChannel' || type === 'textSend' || type === 'ping') {
+  if (typeof type === 'string' && CLIENT_MESSAGE_TYPES.has(type)) {
     return msg as GatewayClientMessage
   }
   return null
 }
 
+// Message fields reach protobuf encoders that throw on anything but the declared type, so optional
+// fields are checked before use.
+function isOptionalInteger(v: unknown): boolean {
+  return v == null || Number.isInteger(v)
+}
+
+function isOptionalString(v: unknown): boolean {
+  return v == null || typeof v === 'string'
+}
+
+function isOptionalBoolean(v: unknown): boolean {
+  return v == null || typeof v === 'boolean'
+}
+
 function attachMumbleEventForwarders(ws: WebSocket, session: Session): Array<() => void> {
   const client = session.mumble.client
 
@@ -186,6 +246,19 @@ function attachMumbleEventForwarders(ws: WebSocket, session: Session): Array<()
     client.events.on('denied', (denied) => {
       sendError(ws, 'mumble_denied', 'Permission denied', denied)
     }),
+    client.events.on('acl', (acl) => send({ type: 'acl', acl })),
+    client.events.on('banList', (bans) => send({ type: 'banList', bans })),
+    client.events.on('userList', (users) => send({ type: 'userList', users })),
+    client.events.on('usersResolved', (result) => send({ type: 'usersResolved', ...result })),
+    client.events.on('userTexture', ({ userId, texture, textureHash }) =>
+      send({ type: 'userTexture', userId, texture: texture.toString('base64'), ...(textureHash ? { textureHash } : {}) })
+    ),
+    client.events.on('userStats', (stats) => send({ type: 'userStats', stats })),
+    client.events.on('contextActions', (actions) => send({ type: 'contextActions', actions })),
+    client.events.on('serverConfig', (config) => send({ type: 'serverConfig', config })),
+    client.events.on('pluginData', (msg) =>
+      send({ type: 'pluginDataRecv', senderId: msg.senderId, dataId: msg.dataId, data: msg.data.toString('base64') })
+    ),
     client.events.on('error', (err) => {
       sendError(ws, 'mumble_error', 'Mumble client error', err)
     }),
@@ -199,7 +272,8 @@ function attachMumbleEventForwarders(ws: WebSocket, session: Session): Array<()
         target: frame.target,
         sequence: Number(frame.sequence & 0xffffffffn),
         isLastFrame: frame.isLastFrame,
-        opus: frame.opus
+        opus: frame.opus,
+        ...(frame.positionalData ? { positionalData: frame.positionalData } : {})
       })
 
       // Best-effort realtime delivery: drop if buffered too much.
@@ -224,7 +298,7 @@ wss.on('connection', (ws) => {
 
   const stopVoiceUplinkPacer = (sessionRef: Session): void => {
     const pacer = sessionRef.uplinkPacer
-    if (pacer.timer) clearInterval(pacer.timer)
+    if (pacer.timer) clearTimeout(pacer.timer)
     pacer.timer = null
     pacer.queue.length = 0
     pacer.lastEnqueueAtMs = 0
@@ -233,6 +307,7 @@ wss.on('connection', (ws) => {
 
   const tickVoiceUplinkPacer = (sessionRef: Session): void => {
     const pacer = sessionRef.uplinkPacer
+    pacer.timer = null
 
     // Session changed or cleaned up; stop this pacer instance.
     if (session !== sessionRef) {
@@ -240,12 +315,14 @@ wss.on('connection', (ws) => {
       return
     }
 
+    const now = Date.now()
     const next = pacer.queue.shift()
     if (!next) {
-      const now = Date.now()
-      if (pacer.timer && pacer.lastEnqueueAtMs > 0 && now - pacer.lastEnqueueAtMs > VOICE_UPLINK_PACING_IDLE_TIMEOUT_MS) {
+      if (pacer.lastEnqueueAtMs > 0 && now - pacer.lastEnqueueAtMs > VOICE_UPLINK_PACING_IDLE_TIMEOUT_MS) {
         stopVoiceUplinkPacer(sessionRef)
+        return
       }
+      pacer.timer = setTimeout(() => tickVoiceUplinkPacer(sessionRef), pacer.lastDurationMs)
       return
     }
 
@@ -254,6 +331,11 @@ wss.on('connection', (ws) => {
       try {
         client.sendOpusFrame(next.target, next.opus)
       } catch {}
+      // Schedule from the previous deadline so timer lateness doesn't accumulate; after a gap, restart from now.
+      const base = now - pacer.nextSendAtMs < next.durationMs ? pacer.nextSendAtMs : now
+      pacer.nextSendAtMs = base + next.durationMs
+      pacer.lastDurationMs = next.durationMs
+      pacer.timer = setTimeout(() => tickVoiceUplinkPacer(sessionRef), Math.max(0, pacer.nextSendAtMs - now))
       return
     }
 
@@ -266,8 +348,7 @@ wss.on('connection', (ws) => {
   const startVoiceUplinkPacer = (sessionRef: Session): void => {
     const pacer = sessionRef.uplinkPacer
     if (pacer.timer) return
-    pacer.timer = setInterval(() => tickVoiceUplinkPacer(sessionRef), VOICE_UPLINK_PACING_INTERVAL_MS)
-    // Avoid adding an extra 1-tick latency for the first queued frame.
+    // Send the first queued frame right away; the following ones are spaced by their durations.
     tickVoiceUplinkPacer(sessionRef)
   }
 
@@ -357,7 +438,8 @@ wss.on('connection', (ws) => {
           session.metrics.voiceUplinkBytes += decoded.opus.byteLength
 
           pacer.lastTarget = decoded.target
-          pacer.queue.push({ type: 'opus', target: decoded.target, opus: decoded.opus })
+          const durationMs = opusPacketDurationMs(decoded.opus) ?? VOICE_UPLINK_PACING_INTERVAL_MS
+          pacer.queue.push({ type: 'opus', target: decoded.target, opus: decoded.opus, durationMs })
 
           if (pacer.queue.length > VOICE_UPLINK_PACING_MAX_QUEUE_FRAMES) {
             const drop = pacer.queue.length - VOICE_UPLINK_PACING_MAX_QUEUE_FRAMES
@@ -402,14 +484,20 @@ wss.on('connection', (ws) => {
         return
       }
 
-      debugLog(`[gateway] connect: serverId=${server.id} host=${server.host} port=${server.port} username=${msg.username}`)
+      const certificate =
+        msg.certificate && typeof msg.certificate.cert === 'string' && typeof msg.certificate.key === 'string' ? msg.certificate : undefined
+
+      debugLog(
+        `[gateway] connect: serverId=${server.id} host=${server.host} port=${server.port} username=${msg.username} certificate=${certificate ? 'yes' : 'no'}`
+      )
 
       try {
         const mumble = await connectMumbleServer({
           server,
           username: msg.username,
           ...(msg.password != null ? { password: msg.password } : {}),
-          ...(msg.tokens != null ? { tokens: msg.tokens } : {})
+          ...(msg.tokens != null ? { tokens: msg.tokens } : {}),
+          ...(certificate != null ? { certificate } : {})
         })
 
         session = {
@@ -417,7 +505,15 @@ wss.on('connection', (ws) => {
           server,
           mumble,
           mumbleUnsubscribers: [],
-          uplinkPacer: { queue: [], timer: null, lastEnqueueAtMs: 0, lastTarget: 0, droppedFramesTotal: 0 },
+          uplinkPacer: {
+            queue: [],
+            timer: null,
+            nextSendAtMs: 0,
+            lastDurationMs: VOICE_UPLINK_PACING_INTERVAL_MS,
+            lastEnqueueAtMs: 0,
+            lastTarget: 0,
+            droppedFramesTotal: 0
+          },
           metrics: {
             voiceDownlinkFrames: 0,
             voiceDownlinkBytes: 0,
@@ -444,6 +540,8 @@ wss.on('connection', (ws) => {
           channels: client.channels.sort((a, b) => a.id - b.id),
           users: client.users.sort((a, b) => a.id - b.id)
         })
+        sendJson(ws, { type: 'contextActions', actions: client.contextActions })
+        sendJson(ws, { type: 'serverConfig', config: client.serverConfig })
 
         session.mumbleUnsubscribers = attachMumbleEventForwarders(ws, session)
 
@@ -473,12 +571,380 @@ wss.on('connection', (ws) => {
 
     if (msg.type === 'textSend') {
       const client = session.mumble.client
-      const params: { message: string; channelId?: number; userId?: number } = { message: msg.message }
+      const params: Parameters<typeof client.sendTextMessage>[0] = { message: msg.message }
       if (msg.channelId != null) params.channelId = msg.channelId
       if (msg.userId != null) params.userId = msg.userId
+      if (msg.treeIds != null) {
+        if (!Array.isArray(msg.treeIds) || !msg.treeIds.every((id) => Number.isInteger(id) && id >= 0)) {
+          sendError(ws, 'bad_request', 'Invalid treeIds')
+          return
+        }
+        params.treeIds = msg.treeIds
+      }
       client.sendTextMessage(params)
       return
     }
+
+    if (msg.type === 'channelCreate') {
+      const client = session.mumble.client
+      if (
+        !Number.isInteger(msg.parentId) ||
+        typeof msg.name !== 'string' ||
+        !isOptionalString(msg.description) ||
+        !isOptionalInteger(msg.position) ||
+        !isOptionalBoolean(msg.temporary)
+      ) {
+        sendError(ws, 'bad_request', 'Invalid channel')
+        return
+      }
+      const params: Parameters<typeof client.createChannel>[0] = { parentId: msg.parentId, name: msg.name }
+      if (msg.description != null) params.description = msg.description
+      if (msg.position != null) params.position = msg.position
+      if (msg.temporary != null) params.temporary = msg.temporary
+      client.createChannel(params)
+      return
+    }
+
+    if (msg.type === 'channelUpdate') {
+      const client = session.mumble.client
+      if (
+        !Number.isInteger(msg.channelId) ||
+        !isOptionalString(msg.name) ||
+        !isOptionalInteger(msg.parentId) ||
+        !isOptionalString(msg.description) ||
+        !isOptionalInteger(msg.position)
+      ) {
+        sendError(ws, 'bad_request', 'Invalid channel')
+        return
+      }
+      const params: Parameters<typeof client.updateChannel>[0] = { channelId: msg.channelId }
+      if (msg.name != null) params.name = msg.name
+      if (msg.parentId != null) params.parentId = msg.parentId
+      if (msg.description != null) params.description = msg.description
+      if (msg.position != null) params.position = msg.position
+      client.updateChannel(params)
+      return
+    }
+
+    if (msg.type === 'channelRemove') {
+      const client = session.mumble.client
+      if (!Number.isInteger(msg.channelId)) {
+        sendError(ws, 'bad_request', 'Invalid channelId')
+        return
+      }
+      client.removeChannel(msg.channelId)
+      return
+    }
+
+    if (msg.type === 'queryAcl') {
+      const client = session.mumble.client
+      if (!Number.isInteger(msg.channelId)) {
+        sendError(ws, 'bad_request', 'Invalid channelId')
+        return
+      }
+      client.queryAcl(msg.channelId)
+      return
+    }
+
+    if (msg.type === 'queryPermissions') {
+      const client = session.mumble.client
+      if (!Number.isInteger(msg.channelId)) {
+        sendError(ws, 'bad_request', 'Invalid channelId')
+        return
+      }
+      client.queryPermissions(msg.channelId)
+      return
+    }
+
+    if (msg.type === 'updateAcl') {
+      const client = session.mumble.client
+      const acl = msg.acl
+      if (!acl || typeof acl !== 'object' || !Number.isInteger(acl.channelId) || !Array.isArray(acl.groups) || !Array.isArray(acl.acls)) {
+        sendError(ws, 'bad_request', 'Invalid ACL')
+        return
+      }
+      const ids = (v: unknown) => (Array.isArray(v) ? v.filter((id): id is number => Number.isInteger(id) && id >= 0) : [])
+      client.updateAcl({
+        channelId: acl.channelId,
+        inheritAcls: acl.inheritAcls !== false,
+        groups: acl.groups
+          .filter((g) => g && typeof g.name === 'string' && g.name)
+          .map((g) => ({
+            name: g.name,
+            inherited: Boolean(g.inherited),
+            inherit: g.inherit !== false,
+            inheritable: g.inheritable !== false,
+            add: ids(g.add),
+            remove: ids(g.remove),
+            inheritedMembers: []
+          })),
+        acls: acl.acls
+          .filter((a) => a && (Number.isInteger(a.userId) || typeof a.group === 'string'))
+          .map((a) => {
+            const entry: AclEntry = {
+              applyHere: a.applyHere !== false,
+              applySubs: a.applySubs !== false,
+              inherited: Boolean(a.inherited),
+              grant: (a.grant >>> 0) || 0,
+              deny: (a.deny >>> 0) || 0
+            }
+            if (Number.isInteger(a.userId)) entry.userId = a.userId as number
+            else if (a.group != null) entry.group = a.group
+            return entry
+          })
+      })
+      return
+    }
+
+    if (msg.type === 'setSelfMute') {
+      const client = session.mumble.client
+      client.setSelfMute(Boolean(msg.mute))
+      return
+    }
+
+    if (msg.type === 'setSelfDeaf') {
+      const client = session.mumble.client
+      client.setSelfDeaf(Boolean(msg.deaf))
+      return
+    }
+
+    if (msg.type === 'setVoiceTarget') {
+      const client = session.mumble.client
+      if (!Number.isInteger(msg.id) || msg.id < 1 || msg.id > 30) {
+        sendError(ws, 'bad_request', 'Invalid voice target id')
+        return
+      }
+      const specs = Array.isArray(msg.targets) ? msg.targets : []
+      const isValidSpec = (t: unknown) => {
+        if (!t || typeof t !== 'object') return false
+        const spec = t as Record<string, unknown>
+        return (
+          (spec.userIds == null || (Array.isArray(spec.userIds) && spec.userIds.every((id) => Number.isInteger(id) && id >= 0))) &&
+          isOptionalInteger(spec.channelId) &&
+          isOptionalString(spec.group) &&
+          isOptionalBoolean(spec.links) &&
+          isOptionalBoolean(spec.children)
+        )
+      }
+      if (!specs.every(isValidSpec)) {
+        sendError(ws, 'bad_request', 'Invalid voice targets')
+        return
+      }
+      const targets = specs.map((t) => {
+        const entry: Parameters<typeof client.setVoiceTarget>[1][number] = {}
+        if (t.userIds != null) entry.sessions = t.userIds
+        if (t.channelId != null) entry.channelId = t.channelId
+        if (t.group != null) entry.group = t.group
+        if (t.links != null) entry.links = t.links
+        if (t.children != null) entry.children = t.children
+        return entry
+      })
+      client.setVoiceTarget(msg.id, targets)
+      return
+    }
+
+    if (msg.type === 'userKick') {
+      const client = session.mumble.client
+      if (!Number.isInteger(msg.userId) || !isOptionalString(msg.reason)) {
+        sendError(ws, 'bad_request', 'Invalid kick')
+        return
+      }
+      const params: Parameters<typeof client.removeUser>[0] = { session: msg.userId }
+      if (msg.reason != null) params.reason = msg.reason
+      client.removeUser(params)
+      return
+    }
+
+    if (msg.type === 'userBan') {
+      const client = session.mumble.client
+      if (!Number.isInteger(msg.userId) || !isOptionalString(msg.reason) || !isOptionalInteger(msg.duration)) {
+        sendError(ws, 'bad_request', 'Invalid ban')
+        return
+      }
+      const params: Parameters<typeof client.banUser>[0] = { session: msg.userId }
+      if (msg.reason != null) params.reason = msg.reason
+      if (msg.duration != null && msg.duration > 0) params.duration = msg.duration
+      client.banUser(params).catch((e) => sendError(ws, 'ban_failed', 'Could not set the ban duration', e))
+      return
+    }
+
+    if (msg.type === 'userModerate') {
+      const client = session.mumble.client
+      if (
+        !Number.isInteger(msg.userId) ||
+        !isOptionalBoolean(msg.mute) ||
+        !isOptionalBoolean(msg.deaf) ||
+        !isOptionalBoolean(msg.suppress) ||
+        !isOptionalBoolean(msg.prioritySpeaker)
+      ) {
+        sendError(ws, 'bad_request', 'Invalid moderation')
+        return
+      }
+      const params: Parameters<typeof client.moderateUser>[0] = { session: msg.userId }
+      if (msg.mute != null) params.mute = msg.mute
+      if (msg.deaf != null) params.deaf = msg.deaf
+      if (msg.suppress != null) params.suppress = msg.suppress
+      if (msg.prioritySpeaker != null) params.prioritySpeaker = msg.prioritySpeaker
+      client.moderateUser(params)
+      return
+    }
+
+    if (msg.type === 'registerSelf') {
+      const client = session.mumble.client
+      client.registerSelf()
+      return
+    }
+
+    if (msg.type === 'banListQuery') {
+      const client = session.mumble.client
+      client.queryBanList()
+      return
+    }
+
+    if (msg.type === 'banListUpdate') {
+      const client = session.mumble.client
+      if (!Array.isArray(msg.bans)) {
+        sendError(ws, 'bad_request', 'Invalid ban list')
+        return
+      }
+      const bans: BanEntry[] = []
+      for (const b of msg.bans) {
+        if (!b || typeof b.address !== 'string' || !Number.isFinite(b.mask)) continue
+        const entry: BanEntry = { address: b.address, mask: b.mask }
+        if (typeof b.name === 'string') entry.name = b.name
+        if (typeof b.certHash === 'string') entry.certHash = b.certHash
+        if (typeof b.reason === 'string') entry.reason = b.reason
+        if (typeof b.start === 'string') entry.start = b.start
+        if (Number.isFinite(b.duration)) entry.duration = b.duration as number
+        bans.push(entry)
+      }
+      client.updateBanList(bans)
+      return
+    }
+
+    if (msg.type === 'userListQuery') {
+      const client = session.mumble.client
+      client.queryUserList()
+      return
+    }
+
+    if (msg.type === 'userListUpdate') {
+      const client = session.mumble.client
+      const rename = (Array.isArray(msg.rename) ? msg.rename : []).filter(
+        (u) => u && Number.isInteger(u.userId) && typeof u.name === 'string'
+      )
+      const remove = (Array.isArray(msg.remove) ? msg.remove : []).filter((id) => Number.isInteger(id))
+      client.updateUserList({ rename, remove })
+      return
+    }
+
+    if (msg.type === 'resolveUsers') {
+      const client = session.mumble.client
+      const ids = Array.isArray(msg.ids) ? msg.ids.filter((id) => Number.isInteger(id) && id >= 0) : []
+      const names = Array.isArray(msg.names) ? msg.names.filter((name) => typeof name === 'string') : []
+      if (!ids.length && !names.length) {
+        sendError(ws, 'bad_request', 'Invalid resolveUsers')
+        return
+      }
+      client.resolveUsers({ ids, names })
+      return
+    }
+
+    if (msg.type === 'requestBlob') {
+      const client = session.mumble.client
+      const ids = (v: unknown) => (Array.isArray(v) ? v.filter((id): id is number => Number.isInteger(id)) : [])
+      client.requestBlob({
+        userTextures: ids(msg.userTextures),
+        userComments: ids(msg.userComments),
+        channelDescriptions: ids(msg.channelDescriptions)
+      })
+      return
+    }
+
+    if (msg.type === 'setSelfComment') {
+      const client = session.mumble.client
+      if (typeof msg.comment !== 'string') {
+        sendError(ws, 'bad_request', 'Invalid comment')
+        return
+      }
+      client.setSelfComment(msg.comment)
+      return
+    }
+
+    if (msg.type === 'setSelfTexture') {
+      const client = session.mumble.client
+      if (typeof msg.texture !== 'string') {
+        sendError(ws, 'bad_request', 'Invalid texture')
+        return
+      }
+      client.setSelfTexture(Buffer.from(msg.texture, 'base64'))
+      return
+    }
+
+    if (msg.type === 'userStatsQuery') {
+      const client = session.mumble.client
+      if (typeof msg.userId !== 'number') {
+        sendError(ws, 'bad_request', 'Invalid userId')
+        return
+      }
+      client.queryUserStats(msg.userId, msg.statsOnly === true)
+      return
+    }
+
+    if (msg.type === 'contextAction') {
+      const client = session.mumble.client
+      if (typeof msg.action !== 'string' || !msg.action || !isOptionalInteger(msg.userId) || !isOptionalInteger(msg.channelId)) {
+        sendError(ws, 'bad_request', 'Invalid action')
+        return
+      }
+      client.sendContextAction({
+        action: msg.action,
+        ...(msg.userId != null ? { userId: msg.userId } : {}),
+        ...(msg.channelId != null ? { channelId: msg.channelId } : {})
+      })
+      return
+    }
+
+    if (msg.type === 'pluginDataSend') {
+      const client = session.mumble.client
+      const receiverIds = Array.isArray(msg.receiverIds) ? msg.receiverIds.filter((id) => Number.isInteger(id)) : []
+      if (!receiverIds.length) {
+        sendError(ws, 'bad_request', 'Invalid receiverIds')
+        return
+      }
+      if (typeof msg.dataId !== 'string' || !msg.dataId || msg.dataId.length > PLUGIN_DATA_ID_MAX_LENGTH) {
+        sendError(ws, 'bad_request', 'Invalid dataId')
+        return
+      }
+      const data = typeof msg.data === 'string' ? Buffer.from(msg.data, 'base64') : null
+      if (!data || data.length > PLUGIN_DATA_MAX_BYTES) {
+        sendError(ws, 'bad_request', `Plugin data must be at most ${PLUGIN_DATA_MAX_BYTES} bytes`)
+        return
+      }
+      client.sendPluginData({ receiverIds, dataId: msg.dataId, data })
+      return
+    }
+
+    if (msg.type === 'setPosition') {
+      const client = session.mumble.client
+      const pos = msg.position
+      if (pos !== null && !(Array.isArray(pos) && pos.length === 3 && pos.every((v) => typeof v === 'number' && Number.isFinite(v)))) {
+        sendError(ws, 'bad_request', 'Invalid position')
+        return
+      }
+      client.setPosition(pos)
+      return
+    }
+
+    if (msg.type === 'setPluginContext') {
+      const client = session.mumble.client
+      if (typeof msg.context !== 'string' || (msg.identity != null && typeof msg.identity !== 'string')) {
+        sendError(ws, 'bad_request', 'Invalid plugin context')
+        return
+      }
+      client.setPluginContext({ context: msg.context, ...(msg.identity != null ? { identity: msg.identity } : {}) })
+      return
+    }
   })
 
   ws.on('close', () => {
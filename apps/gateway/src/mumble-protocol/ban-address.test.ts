@@ -0,0 +1,126 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { banAddressFromString, banAddressToString } from './ban-address.js'
+import { decodeBanList, encodeBanList } from './messages.js'
+
+// A BanList reply from Murmur with two entries:
+// an IPv4 /24 (IPv4-mapped, mask 120) with name, hash, reason, start and a one hour duration,
+// and a native IPv6 /64 with only a reason.
+const BAN_LIST_REPLY = Buffer.from(
+  [
+    '0a63',
+    '0a1000000000000000000000ffffc0a80100',
+    '1078',
+    '1a05616c696365',
+    '222835663063326131653962376433633461386536663162326433633465356636613762386339643065',
+    '2a047370616d',
+    '3213323032362d30332d30315431323a30303a3030',
+    '38901c',
+    '0a1b',
+    '0a1020010db8000000000000000000000001',
+    '1040',
+    '2a05666c6f6f64'
+  ].join(''),
+  'hex'
+)
+
+describe('decodeBanList', () => {
+  it('decodes a captured reply', () => {
+    const { bans, query } = decodeBanList(BAN_LIST_REPLY)
+
+    assert.equal(query, undefined)
+    assert.equal(bans.length, 2)
+    assert.deepEqual(bans[0], {
+      address: Buffer.from('00000000000000000000ffffc0a80100', 'hex'),
+      mask: 120,
+      name: 'alice',
+      hash: '5f0c2a1e9b7d3c4a8e6f1b2d3c4e5f6a7b8c9d0e',
+      reason: 'spam',
+      start: '2026-03-01T12:00:00',
+      duration: 3600
+    })
+    assert.deepEqual(bans[1], { address: Buffer.from('20010db8000000000000000000000001', 'hex'), mask: 64, reason: 'flood' })
+  })
+
+  it('re-encodes to the same bytes', () => {
+    assert.deepEqual(encodeBanList(decodeBanList(BAN_LIST_REPLY)), BAN_LIST_REPLY)
+  })
+
+  it('converts decoded entries to the gateway form', () => {
+    const [v4, v6] = decodeBanList(BAN_LIST_REPLY).bans
+
+    assert.deepEqual(v4 && banAddressToString(v4.address, v4.mask), { address: '192.168.1.0', mask: 24 })
+    assert.deepEqual(v6 && banAddressToString(v6.address, v6.mask), { address: '2001:db8::1', mask: 64 })
+  })
+})
+
+describe('banAddressToString', () => {
+  it('formats IPv4-mapped addresses as dotted quads with an IPv4 mask', () => {
+    const address = Buffer.from('00000000000000000000ffff0a000001', 'hex')
+
+    assert.deepEqual(banAddressToString(address, 128), { address: '10.0.0.1', mask: 32 })
+    assert.deepEqual(banAddressToString(address, 96), { address: '10.0.0.1', mask: 0 })
+  })
+
+  it('collapses the longest run of zero groups', () => {
+    assert.deepEqual(banAddressToString(Buffer.from('20010db8000000010000000000000001', 'hex'), 128), {
+      address: '2001:db8:0:1::1',
+      mask: 128
+    })
+    assert.deepEqual(banAddressToString(Buffer.alloc(16), 0), { address: '::', mask: 0 })
+    assert.deepEqual(banAddressToString(Buffer.from('fe800000000000000000000000000000', 'hex'), 10), { address: 'fe80::', mask: 10 })
+  })
+
+  it('leaves a single zero group uncollapsed', () => {
+    assert.deepEqual(banAddressToString(Buffer.from('20010db8000000010002000300040005', 'hex'), 128), {
+      address: '2001:db8:0:1:2:3:4:5',
+      mask: 128
+    })
+  })
+})
+
+describe('banAddressFromString', () => {
+  it('maps IPv4 into the 128-bit form', () => {
+    assert.deepEqual(banAddressFromString('192.168.1.0', 24), {
+      address: Buffer.from('00000000000000000000ffffc0a80100', 'hex'),
+      mask: 120
+    })
+  })
+
+  it('parses native and dotted-quad IPv6', () => {
+    assert.deepEqual(banAddressFromString('2001:db8::1', 64), {
+      address: Buffer.from('20010db8000000000000000000000001', 'hex'),
+      mask: 64
+    })
+    assert.deepEqual(banAddressFromString('::ffff:10.0.0.1', 128), {
+      address: Buffer.from('00000000000000000000ffff0a000001', 'hex'),
+      mask: 128
+    })
+  })
+
+  it('clamps the mask to the address family', () => {
+    assert.equal(banAddressFromString('10.0.0.1', 40)?.mask, 128)
+    assert.equal(banAddressFromString('10.0.0.1', -1)?.mask, 96)
+    assert.equal(banAddressFromString('::1', 200)?.mask, 128)
+    assert.equal(banAddressFromString('::1', Number.NaN)?.mask, 128)
+  })
+
+  it('round-trips through banAddressToString', () => {
+    for (const [text, mask] of [
+      ['192.168.1.0', 24],
+      ['2001:db8::1', 64],
+      ['fe80::', 10],
+      ['::', 0]
+    ] as const) {
+      const parsed = banAddressFromString(text, mask)
+      assert.ok(parsed)
+      assert.deepEqual(banAddressToString(parsed.address, parsed.mask), { address: text, mask })
+    }
+  })
+
+  it('rejects invalid addresses', () => {
+    for (const text of ['', 'example.org', '1.2.3', '1.2.3.256', '1.2.3.4/24', '2001:db8::1::2', '2001:db8:::1', 'gggg::1', '12345::1']) {
+      assert.equal(banAddressFromString(text, 32), null, text)
+    }
+  })
+})
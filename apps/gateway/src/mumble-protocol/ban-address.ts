@@ -0,0 +1,70 @@
+import net from 'node:net'
+
+// Mumble ban entries store addresses as 16 raw bytes with a 128-bit prefix length; IPv4 is mapped to ::ffff:0:0/96.
+// These helpers convert to/from the textual form (with an IPv4-sized mask for IPv4) used on the gateway protocol.
+
+const V4_MAPPED_PREFIX = Buffer.from([0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0xff, 0xff])
+
+export function banAddressToString(address: Buffer, mask: number): { address: string; mask: number } {
+  if (address.length === 4) return { address: [...address].join('.'), mask: Math.min(32, mask) }
+  if (address.length !== 16) return { address: address.toString('hex'), mask }
+
+  if (address.subarray(0, 12).equals(V4_MAPPED_PREFIX)) {
+    return { address: [...address.subarray(12)].join('.'), mask: Math.max(0, mask - 96) }
+  }
+
+  const groups: number[] = []
+  for (let i = 0; i < 16; i += 2) groups.push(address.readUInt16BE(i))
+
+  // Collapse the longest run of zero groups (RFC 5952).
+  let bestStart = -1
+  let bestLen = 0
+  for (let i = 0; i < 8; ) {
+    if (groups[i] !== 0) {
+      i++
+      continue
+    }
+    let j = i
+    while (j < 8 && groups[j] === 0) j++
+    if (j - i > bestLen && j - i > 1) {
+      bestStart = i
+      bestLen = j - i
+    }
+    i = j
+  }
+  const hex = groups.map((g) => g.toString(16))
+  if (bestStart < 0) return { address: hex.join(':'), mask }
+  const head = hex.slice(0, bestStart).join(':')
+  const tail = hex.slice(bestStart + bestLen).join(':')
+  return { address: `${head}::${tail}`, mask }
+}
+
+export function banAddressFromString(address: string, mask: number): { address: Buffer; mask: number } | null {
+  const text = address.trim()
+  if (net.isIPv4(text)) {
+    const bytes = text.split('.').map((p) => Number(p))
+    return { address: Buffer.concat([V4_MAPPED_PREFIX, Buffer.from(bytes)]), mask: 96 + clamp(mask, 32) }
+  }
+  if (!net.isIPv6(text)) return null
+
+  let v6 = text
+  // Trailing dotted quad (e.g. ::ffff:1.2.3.4): rewrite it as two hex groups.
+  const quad = /(\d+\.\d+\.\d+\.\d+)$/.exec(v6)
+  if (quad?.[1]) {
+    const [a = 0, b = 0, c = 0, d = 0] = quad[1].split('.').map((p) => Number(p))
+    v6 = `${v6.slice(0, quad.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`
+  }
+  const [headText = '', tailText] = v6.split('::')
+  const head = headText ? headText.split(':') : []
+  const tail = tailText ? tailText.split(':') : []
+  const zeros = tailText != null ? 8 - head.length - tail.length : 0
+  const groups = [...head, ...Array<string>(zeros).fill('0'), ...tail]
+  const out = Buffer.alloc(16)
+  groups.forEach((g, i) => out.writeUInt16BE(parseInt(g, 16), i * 2))
+  return { address: out, mask: clamp(mask, 128) }
+}
+
+function clamp(mask: number, max: number): number {
+  if (!Number.isFinite(mask)) return max
+  return Math.max(0, Math.min(max, Math.trunc(mask)))
+}
@@ -1,29 +1,57 @@
+import { createHash } from 'node:crypto'
 import tls from 'node:tls'
-import { setInterval, clearInterval } from 'node:timers'
-import type { ChannelState, UserState } from '../types.js'
+import { setInterval, clearInterval, setTimeout, clearTimeout } from 'node:timers'
+import type { BanEntry, ChannelAcl, ChannelState, ContextAction, MumbleServerConfig, RegisteredUser, ResolvedUsers, UserState, UserStats } from '../types.js'
+import { banAddressFromString, banAddressToString } from './ban-address.js'
 import {
   type CryptSetupMessage,
+  type VoiceTargetEntry,
+  ContextActionContext,
   TcpMessageType,
+  decodeAcl,
+  decodeBanList,
   decodeChannelRemove,
   decodeChannelState,
   decodeCodecVersion,
+  decodeContextActionModify,
   decodeCryptSetup,
   decodePermissionDenied,
+  decodePermissionQuery,
   decodePing,
+  decodePluginDataTransmission,
+  decodeQueryUsers,
   decodeReject,
+  decodeServerConfig,
   decodeServerSync,
+  decodeSuggestConfig,
   decodeTextMessage,
   decodeUserRemove,
+  decodeUserList,
   decodeUserState,
+  decodeUserStats,
   decodeVersion,
+  encodeAcl,
   encodeAuthenticate,
+  encodeBanList,
+  encodeChannelRemove,
+  encodeChannelState,
+  encodeContextAction,
   encodeCryptSetup,
+  encodePermissionQuery,
   encodePing,
+  encodePluginDataTransmission,
+  encodeQueryUsers,
+  encodeRequestBlob,
   encodeTextMessage,
+  encodeUserList,
+  encodeUserRemove,
   encodeUserState,
-  encodeVersion
+  encodeUserStats,
+  encodeVersion,
+  encodeVoiceTarget
 } from './messages.js'
 import { TypedEmitter } from './typed-emitter.js'
+import type { VoicePacketFormat } from './voice-packet.js'
 
 export type MumbleTextMessage = {
   actor: number
@@ -47,6 +75,12 @@ export type MumblePermissionDenied = {
   name?: string
 }
 
+export type MumblePluginData = {
+  senderId: number
+  dataId: string
+  data: Buffer
+}
+
 export type MumbleServerInfo = {
   welcomeMessage?: string
   maxBandwidth?: number
@@ -66,6 +100,15 @@ type Events = {
   cryptSetup: CryptSetupMessage
   reject: MumbleReject
   denied: MumblePermissionDenied
+  acl: ChannelAcl
+  banList: BanEntry[]
+  userList: RegisteredUser[]
+  usersResolved: ResolvedUsers
+  userTexture: { userId: number; texture: Buffer; textureHash?: string }
+  userStats: UserStats
+  contextActions: ContextAction[]
+  serverConfig: MumbleServerConfig
+  pluginData: MumblePluginData
   error: unknown
   disconnected: undefined
   // Voice events are added in a later module (see voice.ts integration)
@@ -75,6 +118,27 @@ function versionV1(major: number, minor: number, patch: number): number {
   return ((major & 0xffff) << 16) | ((minor & 0xff) << 8) | (patch & 0xff)
 }
 
+function versionV2(major: number, minor: number, patch: number): bigint {
+  return (BigInt(major & 0xffff) << 48n) | (BigInt(minor & 0xffff) << 32n) | (BigInt(patch & 0xffff) << 16n)
+}
+
+function formatVersionV1(v: number): string {
+  return `${v >>> 16}.${(v >>> 8) & 0xff}.${v & 0xff}`
+}
+
+function formatVersionV2(v: bigint): string {
+  return `${(v >> 48n) & 0xffffn}.${(v >> 32n) & 0xffffn}.${(v >> 16n) & 0xffffn}`
+}
+
+// Lookups arriving within this window share one QueryUsers request.
+const USER_QUERY_BATCH_MS = 20
+
+// First version that speaks the protobuf (MumbleUDP.proto) voice format.
+const PROTOBUF_VOICE_VERSION = versionV2(1, 5, 0)
+
+// UserState.user_id the server sends (as -1) when a user's registration is removed.
+const UNREGISTERED_USER_ID = 0xffffffff
+
 export class MumbleTcpClient {
   private _socket: tls.TLSSocket
   private _buffer: Buffer = Buffer.alloc(0)
@@ -82,15 +146,39 @@ export class MumbleTcpClient {
   private _keepaliveTimer: NodeJS.Timeout | null = null
 
   private _pendingPings = new Map<bigint, number>()
+  private _synced = false
+  // PermissionQuery requests without a reply yet (channel ids).
+  private _permissionQueries = new Set<number>()
+  // Timed bans waiting for the BanList reply that carries their new entry (UserRemove can only ban permanently).
+  private _pendingBanDurations: Array<{
+    name: string
+    hash: string
+    reason: string
+    duration: number
+    resolve: () => void
+    reject: (err: Error) => void
+  }> = []
+  // Registered user names by id and ids by lower-cased name; null remembers lookups the server didn't know.
+  private _registeredNames = new Map<number, string | null>()
+  private _registeredIds = new Map<string, number | null>()
+  // Lookups queued for the next QueryUsers or already sent (not asked again until answered).
+  private _pendingUserIds = new Set<number>()
+  private _pendingUserNames = new Set<string>()
+  private _queuedUserQuery: { ids: number[]; names: string[] } = { ids: [], names: [] }
+  private _userQueryTimer: NodeJS.Timeout | null = null
+  // The server answers QueryUsers in order and leaves unknown entries out, so replies are matched to batches FIFO.
+  private _sentUserQueries: Array<{ ids: number[]; names: string[] }> = []
 
   readonly events = new TypedEmitter<Events>()
 
   readonly channels = new Map<number, ChannelState>()
   readonly users = new Map<number, UserState>()
+  readonly contextActions = new Map<string, ContextAction>()
 
   selfUserId = 0
   rootChannelId = 0
   serverInfo: MumbleServerInfo = {}
+  serverConfig: MumbleServerConfig = {}
   cryptSetup: CryptSetupMessage = {}
 
   constructor(socket: tls.TLSSocket) {
@@ -108,12 +196,15 @@ export class MumbleTcpClient {
     username: string
     password?: string
     tokens?: string[]
+    cert?: string
+    key?: string
   }): Promise<MumbleTcpClient> {
     const socket = tls.connect({
       host: params.host,
       port: params.port,
       servername: params.host,
-      rejectUnauthorized: params.rejectUnauthorized
+      rejectUnauthorized: params.rejectUnauthorized,
+      ...(params.cert != null && params.key != null ? { cert: params.cert, key: params.key } : {})
     })
 
     await new Promise<void>((resolve, reject) => {
@@ -127,9 +218,11 @@ export class MumbleTcpClient {
 
     const client = new MumbleTcpClient(socket)
 
-    // Use protocol version < 1.5 to stick to legacy UDP packet format.
+    // Advertise 1.5 so newer servers can use the protobuf voice format; the format actually used is
+    // picked from the server's Version reply (see `voicePacketFormat`).
     client.sendMessage(TcpMessageType.Version, encodeVersion({
-      versionV1: versionV1(1, 4, 0),
+      versionV1: versionV1(1, 5, 0),
+      versionV2: versionV2(1, 5, 0),
       release: 'mumble-web gateway',
       os: 'node',
       osVersion: process.version
@@ -154,11 +247,27 @@ export class MumbleTcpClient {
     return client
   }
 
+  get serverVersionV2(): bigint | null {
+    const v = this.serverInfo.version
+    if (!v) return null
+    if (v.versionV2 != null) return v.versionV2
+    if (v.versionV1 == null) return null
+    return versionV2(v.versionV1 >>> 16, (v.versionV1 >>> 8) & 0xff, v.versionV1 & 0xff)
+  }
+
+  get voicePacketFormat(): VoicePacketFormat {
+    const v = this.serverVersionV2
+    return v != null && v >= PROTOBUF_VOICE_VERSION ? 'protobuf' : 'legacy'
+  }
+
   close(): void {
     if (this._closed) return
     this._closed = true
     if (this._keepaliveTimer) clearInterval(this._keepaliveTimer)
     this._keepaliveTimer = null
+    if (this._userQueryTimer) clearTimeout(this._userQueryTimer)
+    this._userQueryTimer = null
+    this._rejectPendingBanDurations()
     try {
       this._socket.end()
     } catch {}
@@ -188,24 +297,348 @@ export class MumbleTcpClient {
     this.sendMessage(TcpMessageType.UserState, payload)
   }
 
-  sendTextMessage(params: { message: string; channelId?: number; userId?: number }): void {
+  createChannel(params: { parentId: number; name: string; description?: string; position?: number; temporary?: boolean }): void {
+    const name = params.name?.toString?.().trim() ?? ''
+    if (!name || !Number.isInteger(params.parentId)) return
+    // New channels are requested by sending a ChannelState without channel_id.
+    const payload = encodeChannelState({
+      parent: params.parentId,
+      name,
+      ...(params.description != null ? { description: params.description } : {}),
+      ...(params.position != null ? { position: params.position } : {}),
+      ...(params.temporary != null ? { temporary: params.temporary } : {})
+    })
+    this.sendMessage(TcpMessageType.ChannelState, payload)
+  }
+
+  updateChannel(params: { channelId: number; name?: string; parentId?: number; description?: string; position?: number }): void {
+    if (!Number.isInteger(params.channelId)) return
+    const name = typeof params.name === 'string' ? params.name.trim() : undefined
+    const payload = encodeChannelState({
+      channelId: params.channelId,
+      ...(name ? { name } : {}),
+      ...(params.parentId != null ? { parent: params.parentId } : {}),
+      ...(params.description != null ? { description: params.description } : {}),
+      ...(params.position != null ? { position: params.position } : {})
+    })
+    this.sendMessage(TcpMessageType.ChannelState, payload)
+  }
+
+  removeChannel(channelId: number): void {
+    if (!Number.isInteger(channelId)) return
+    this.sendMessage(TcpMessageType.ChannelRemove, encodeChannelRemove({ channelId }))
+  }
+
+  setSelfMute(mute: boolean): void {
+    if (!this.selfUserId) return
+    // Unmuting while deafened also undeafens, matching the desktop client.
+    const selfDeaf = this.users.get(this.selfUserId)?.selfDeaf
+    const payload = encodeUserState({
+      session: this.selfUserId,
+      selfMute: mute,
+      ...(!mute && selfDeaf ? { selfDeaf: false } : {})
+    })
+    this.sendMessage(TcpMessageType.UserState, payload)
+  }
+
+  setSelfDeaf(deaf: boolean): void {
+    if (!this.selfUserId) return
+    // The server forces self_mute on while deafened; send it explicitly to keep our local view in sync.
+    const payload = encodeUserState({
+      session: this.selfUserId,
+      selfDeaf: deaf,
+      ...(deaf ? { selfMute: true } : {})
+    })
+    this.sendMessage(TcpMessageType.UserState, payload)
+  }
+
+  // Same as the desktop client's "Register": user_id 0 asks the server to register the sender under its
+  // current name and certificate hash. Fails with PermissionDenied (MissingCertificate) without a cert.
+  registerSelf(): void {
+    if (!this.selfUserId) return
+    const payload = encodeUserState({ session: this.selfUserId, userId: 0 })
+    this.sendMessage(TcpMessageType.UserState, payload)
+  }
+
+  queryAcl(channelId: number): void {
+    if (!Number.isInteger(channelId)) return
+    this.sendMessage(TcpMessageType.ACL, encodeAcl({ channelId, inheritAcls: true, groups: [], acls: [], query: true }))
+  }
+
+  // The server replaces the channel's ACL wholesale. Like the desktop client's ACL editor, only send what is
+  // defined on this channel: inherited entries are dropped and inherited groups only kept when modified here.
+  updateAcl(acl: ChannelAcl): void {
+    const groups = acl.groups.filter((g) => !(g.inherited && g.inherit && g.inheritable && !g.add.length && !g.remove.length))
+    const acls = acl.acls.filter((a) => !a.inherited)
+    this.sendMessage(TcpMessageType.ACL, encodeAcl({ channelId: acl.channelId, inheritAcls: acl.inheritAcls, groups, acls }))
+  }
+
+  // Like the desktop client, permissions are only asked for when needed: our own channel after sync and on every
+  // move, other channels when the UI is about to show their actions. Known and in-flight channels are skipped.
+  queryPermissions(channelId: number): void {
+    const ch = this.channels.get(channelId)
+    if (!ch || ch.permissions != null || this._permissionQueries.has(channelId)) return
+    this._permissionQueries.add(channelId)
+    this.sendMessage(TcpMessageType.PermissionQuery, encodePermissionQuery({ channelId }))
+  }
+
+  private _setPermissions(channelId: number, permissions: number | undefined) {
+    const ch = this.channels.get(channelId)
+    if (!ch || ch.permissions === permissions) return
+    const next: ChannelState = { ...ch }
+    if (permissions != null) next.permissions = permissions
+    else delete next.permissions
+    this.channels.set(channelId, next)
+    this.events.emit('channelUpsert', next)
+  }
+
+  removeUser(params: { session: number; reason?: string; ban?: boolean }): void {
+    if (!Number.isInteger(params.session)) return
+    const reason = typeof params.reason === 'string' ? params.reason.trim() : undefined
+    const payload = encodeUserRemove({
+      session: params.session,
+      ...(reason ? { reason } : {}),
+      ...(params.ban ? { ban: true } : {})
+    })
+    this.sendMessage(TcpMessageType.UserRemove, payload)
+  }
+
+  // Bans the user like the desktop client (address + certificate hash). For a timed ban the new entry is
+  // patched afterwards: the list is queried right after UserRemove (the server handles both in order), the
+  // entry is found by certificate hash in that reply and the reply is sent straight back with its duration.
+  // BanList can only replace the whole list, so an edit another admin makes in between is still lost.
+  // Rejects when the entry can't be identified; the user stays banned permanently in that case.
+  banUser(params: { session: number; reason?: string; duration?: number }): Promise<void> {
+    const user = this.users.get(params.session)
+    if (!user) return Promise.reject(new Error('Unknown user'))
+    const reason = typeof params.reason === 'string' ? params.reason.trim() : ''
+    this.removeUser({ session: params.session, ban: true, ...(reason ? { reason } : {}) })
+    const duration = Math.trunc(params.duration ?? 0)
+    if (!Number.isFinite(duration) || duration <= 0) return Promise.resolve()
+
+    return new Promise((resolve, reject) => {
+      this._pendingBanDurations.push({ name: user.name, hash: user.certHash ?? '', reason, duration, resolve, reject })
+      this.queryBanList()
+    })
+  }
+
+  queryBanList(): void {
+    this.sendMessage(TcpMessageType.BanList, encodeBanList({ bans: [], query: true }))
+  }
+
+  // Replaces the server's whole ban list. Entries with an unparsable address are dropped.
+  updateBanList(bans: BanEntry[]): void {
+    const out = []
+    for (const b of bans) {
+      const addr = banAddressFromString(b.address, b.mask)
+      if (!addr) continue
+      out.push({
+        address: addr.address,
+        mask: addr.mask,
+        ...(b.name ? { name: b.name } : {}),
+        ...(b.certHash ? { hash: b.certHash } : {}),
+        ...(b.reason ? { reason: b.reason } : {}),
+        ...(b.start ? { start: b.start } : {}),
+        duration: b.duration && b.duration > 0 ? Math.trunc(b.duration) : 0
+      })
+    }
+    this.sendMessage(TcpMessageType.BanList, encodeBanList({ bans: out }))
+  }
+
+  private _flushUserQuery(): void {
+    this._userQueryTimer = null
+    const batch = this._queuedUserQuery
+    this._queuedUserQuery = { ids: [], names: [] }
+    if (!batch.ids.length && !batch.names.length) return
+    this._sentUserQueries.push(batch)
+    this.sendMessage(TcpMessageType.QueryUsers, encodeQueryUsers(batch))
+  }
+
+  private _cacheRegisteredUser(userId: number, name: string): void {
+    const prev = this._registeredNames.get(userId)
+    if (prev && prev !== name) this._registeredIds.delete(prev.toLowerCase())
+    this._registeredNames.set(userId, name)
+    this._registeredIds.set(name.toLowerCase(), userId)
+  }
+
+  private _forgetRegisteredUser(userId: number): void {
+    const name = this._registeredNames.get(userId)
+    if (name) this._registeredIds.delete(name.toLowerCase())
+    this._registeredNames.delete(userId)
+  }
+
+  // Sets the duration on the permanent entries UserRemove just created; the newest one wins when a user was
+  // banned before. Users without a certificate are matched by name and reason instead.
+  private _applyPendingBanDurations(bans: BanEntry[]): boolean {
+    let changed = false
+    for (const pending of this._pendingBanDurations.splice(0)) {
+      const matches = bans.filter((b) => {
+        if (b.duration) return false
+        if (pending.hash) return b.certHash === pending.hash
+        return !b.certHash && (b.name ?? '') === pending.name && (b.reason ?? '') === pending.reason
+      })
+      const entry = matches[matches.length - 1]
+      if (!entry) {
+        pending.reject(new Error(`No ban entry found for ${pending.name}; the ban stays permanent`))
+        continue
+      }
+      entry.duration = pending.duration
+      changed = true
+      pending.resolve()
+    }
+    return changed
+  }
+
+  private _rejectPendingBanDurations(): void {
+    for (const pending of this._pendingBanDurations.splice(0)) pending.reject(new Error('Disconnected'))
+  }
+
+  requestBlob(params: { userTextures?: number[]; userComments?: number[]; channelDescriptions?: number[] }): void {
+    const known = (ids: number[] | undefined, map: Map<number, unknown>) => (ids ?? []).filter((id) => map.has(id))
+    const sessionTextures = known(params.userTextures, this.users)
+    const sessionComments = known(params.userComments, this.users)
+    const channelDescriptions = known(params.channelDescriptions, this.channels)
+    if (!sessionTextures.length && !sessionComments.length && !channelDescriptions.length) return
+    this.sendMessage(TcpMessageType.RequestBlob, encodeRequestBlob({ sessionTextures, sessionComments, channelDescriptions }))
+  }
+
+  setSelfComment(comment: string): void {
+    if (!this.selfUserId) return
+    this.sendMessage(TcpMessageType.UserState, encodeUserState({ session: this.selfUserId, comment }))
+  }
+
+  // An empty buffer removes the avatar.
+  setSelfTexture(texture: Buffer): void {
+    if (!this.selfUserId) return
+    this.sendMessage(TcpMessageType.UserState, encodeUserState({ session: this.selfUserId, texture }))
+  }
+
+  // Positional audio is only relayed between users with the same plugin context (e.g. game + server);
+  // the identity lets plugins tell players apart. Neither is sent back to other clients.
+  setPluginContext(params: { context: string; identity?: string }): void {
+    if (!this.selfUserId) return
+    this.sendMessage(
+      TcpMessageType.UserState,
+      encodeUserState({ session: this.selfUserId, pluginContext: Buffer.from(params.context, 'utf8'), pluginIdentity: params.identity ?? '' })
+    )
+  }
+
+  queryUserStats(userId: number, statsOnly = false): void {
+    if (!this.users.has(userId)) return
+    this.sendMessage(TcpMessageType.UserStats, encodeUserStats({ session: userId, statsOnly }))
+  }
+
+  sendContextAction(params: { action: string; userId?: number; channelId?: number }): void {
+    if (!this.contextActions.has(params.action)) return
+    this.sendMessage(
+      TcpMessageType.ContextAction,
+      encodeContextAction({
+        action: params.action,
+        ...(params.userId != null ? { session: params.userId } : {}),
+        ...(params.channelId != null ? { channelId: params.channelId } : {})
+      })
+    )
+  }
+
+  // Delivered by the server only to the listed sessions (plugins filter by `dataId`).
+  sendPluginData(params: { receiverIds: number[]; dataId: string; data: Buffer }): void {
+    const receiverSessions = params.receiverIds.filter((id) => id !== this.selfUserId && this.users.has(id))
+    if (!receiverSessions.length) return
+    this.sendMessage(
+      TcpMessageType.PluginDataTransmission,
+      encodePluginDataTransmission({ senderSession: this.selfUserId, receiverSessions, data: params.data, dataId: params.dataId })
+    )
+  }
+
+  // Cached answers are emitted right away; everything else is batched into a single QueryUsers.
+  resolveUsers(params: { ids?: number[]; names?: string[] }): void {
+    const cached: ResolvedUsers = { users: [], unknownIds: [], unknownNames: [] }
+    const queue = this._queuedUserQuery
+
+    for (const userId of new Set(params.ids ?? [])) {
+      const name = this._registeredNames.get(userId)
+      if (name === null) cached.unknownIds.push(userId)
+      else if (name !== undefined) cached.users.push({ userId, name })
+      else if (!this._pendingUserIds.has(userId)) {
+        this._pendingUserIds.add(userId)
+        queue.ids.push(userId)
+      }
+    }
+    for (const raw of params.names ?? []) {
+      const name = raw.trim()
+      const key = name.toLowerCase()
+      if (!name) continue
+      const userId = this._registeredIds.get(key)
+      if (userId === null) cached.unknownNames.push(name)
+      else if (userId !== undefined) cached.users.push({ userId, name: this._registeredNames.get(userId) ?? name })
+      else if (!this._pendingUserNames.has(key)) {
+        this._pendingUserNames.add(key)
+        queue.names.push(name)
+      }
+    }
+
+    if (cached.users.length || cached.unknownIds.length || cached.unknownNames.length) this.events.emit('usersResolved', cached)
+    if ((queue.ids.length || queue.names.length) && !this._userQueryTimer) {
+      this._userQueryTimer = setTimeout(() => this._flushUserQuery(), USER_QUERY_BATCH_MS)
+    }
+  }
+
+  queryUserList(): void {
+    this.sendMessage(TcpMessageType.UserList, encodeUserList({ users: [] }))
+  }
+
+  // The server does not answer updates, so ask for the list again to pick up the result.
+  updateUserList(params: { rename?: Array<{ userId: number; name: string }>; remove?: number[] }): void {
+    const users = [
+      ...(params.rename ?? []).filter((u) => u.name.trim()).map((u) => ({ userId: u.userId, name: u.name.trim() })),
+      ...(params.remove ?? []).map((userId) => ({ userId }))
+    ]
+    if (!users.length) return
+    for (const u of users) this._forgetRegisteredUser(u.userId)
+    this.sendMessage(TcpMessageType.UserList, encodeUserList({ users }))
+    this.queryUserList()
+  }
+
+  moderateUser(params: { session: number; mute?: boolean; deaf?: boolean; suppress?: boolean; prioritySpeaker?: boolean }): void {
+    if (!Number.isInteger(params.session)) return
+    const payload = encodeUserState({
+      session: params.session,
+      ...(params.mute != null ? { mute: params.mute } : {}),
+      ...(params.deaf != null ? { deaf: params.deaf } : {}),
+      ...(params.suppress != null ? { suppress: params.suppress } : {}),
+      ...(params.prioritySpeaker != null ? { prioritySpeaker: params.prioritySpeaker } : {})
+    })
+    this.sendMessage(TcpMessageType.UserState, payload)
+  }
+
+  // Tree targets reach the channel and all of its subchannels; without any explicit target the
+  // message goes to our own channel.
+  sendTextMessage(params: { message: string; channelId?: number; userId?: number; treeIds?: number[] }): void {
     const message = params.message?.toString?.() ?? ''
     if (!message.trim()) return
 
     const targetSessions = params.userId != null ? [params.userId] : undefined
+    const targetTreeIds = params.userId == null && params.treeIds?.length ? params.treeIds : undefined
     const selfChannelId = this.selfUserId ? this.users.get(this.selfUserId)?.channelId : null
-    const targetChannelId = params.userId == null ? (params.channelId ?? selfChannelId) : null
+    const targetChannelId = params.userId == null && !targetTreeIds ? (params.channelId ?? selfChannelId) : null
     const targetChannelIds = targetChannelId != null ? [targetChannelId] : undefined
 
     const payload = encodeTextMessage({
       message,
       ...(targetSessions ? { targetSessions } : {}),
-      ...(targetChannelIds ? { targetChannelIds } : {})
+      ...(targetChannelIds ? { targetChannelIds } : {}),
+      ...(targetTreeIds ? { targetTreeIds } : {})
     })
 
     this.sendMessage(TcpMessageType.TextMessage, payload)
   }
 
+  // Targets 1-30 are user-defined; 0 is normal talking and 31 is server loopback.
+  setVoiceTarget(id: number, targets: VoiceTargetEntry[]): void {
+    if (!Number.isInteger(id) || id < 1 || id > 30) return
+    this.sendMessage(TcpMessageType.VoiceTarget, encodeVoiceTarget({ id, targets }))
+  }
+
   sendCryptSetup(msg: CryptSetupMessage): void {
     this.sendMessage(TcpMessageType.CryptSetup, encodeCryptSetup(msg))
   }
@@ -213,6 +646,9 @@ export class MumbleTcpClient {
   private _onClose() {
     if (this._keepaliveTimer) clearInterval(this._keepaliveTimer)
     this._keepaliveTimer = null
+    if (this._userQueryTimer) clearTimeout(this._userQueryTimer)
+    this._userQueryTimer = null
+    this._rejectPendingBanDurations()
     this._closed = true
     this.events.emit('disconnected', undefined)
   }
@@ -251,6 +687,11 @@ export class MumbleTcpClient {
           if (sync.session != null) this.selfUserId = sync.session
           if (sync.maxBandwidth != null) this.serverInfo.maxBandwidth = sync.maxBandwidth
           if (sync.welcomeText != null) this.serverInfo.welcomeMessage = sync.welcomeText
+          // ServerSync carries the root channel's permissions; other channels are queried on demand.
+          this._synced = true
+          if (sync.permissions != null) this._setPermissions(this.rootChannelId, Number(sync.permissions & 0xffffffffn))
+          const selfChannelId = this.users.get(this.selfUserId)?.channelId
+          if (selfChannelId != null) this.queryPermissions(selfChannelId)
           this.events.emit('serverSync', { ...this.serverInfo })
           return
         }
@@ -290,9 +731,13 @@ export class MumbleTcpClient {
           }
           const position = ch.position ?? prev?.position
           if (position != null) next.position = position
-          const description = ch.description ?? prev?.description
+          // A new description hash means the cached description is stale until it is fetched again.
+          const descriptionHash = ch.descriptionHash?.length ? ch.descriptionHash.toString('hex') : ch.description != null ? undefined : prev?.descriptionHash
+          const description = ch.description ?? (descriptionHash !== prev?.descriptionHash ? undefined : prev?.description)
           if (description != null) next.description = description
+          if (descriptionHash) next.descriptionHash = descriptionHash
           if (links && links.length) next.links = links
+          if (prev?.permissions != null) next.permissions = prev.permissions
 
           this.channels.set(next.id, next)
           this.events.emit('channelUpsert', next)
@@ -301,6 +746,7 @@ export class MumbleTcpClient {
         case TcpMessageType.ChannelRemove: {
           const msg = decodeChannelRemove(payload)
           this.channels.delete(msg.channelId)
+          this._permissionQueries.delete(msg.channelId)
           this.events.emit('channelRemove', msg.channelId)
           return
         }
@@ -315,18 +761,41 @@ export class MumbleTcpClient {
             // Treat missing channel_id as "unchanged", and default to root (0) for first sight.
             channelId: u.channelId ?? prev?.channelId ?? 0
           }
+          const registeredId = u.userId === UNREGISTERED_USER_ID ? undefined : (u.userId ?? prev?.registeredId)
+          const certHash = u.hash ?? prev?.certHash
           const mute = u.mute ?? prev?.mute
           const deaf = u.deaf ?? prev?.deaf
           const suppress = u.suppress ?? prev?.suppress
           const selfMute = u.selfMute ?? prev?.selfMute
           const selfDeaf = u.selfDeaf ?? prev?.selfDeaf
+          const prioritySpeaker = u.prioritySpeaker ?? prev?.prioritySpeaker
+          if (registeredId != null) next.registeredId = registeredId
+          if (certHash) next.certHash = certHash
           if (mute != null) next.mute = mute
           if (deaf != null) next.deaf = deaf
           if (suppress != null) next.suppress = suppress
           if (selfMute != null) next.selfMute = selfMute
           if (selfDeaf != null) next.selfDeaf = selfDeaf
+          if (prioritySpeaker != null) next.prioritySpeaker = prioritySpeaker
+
+          // Comments and avatars are either sent inline or announced by hash (then fetched with RequestBlob).
+          const commentHash = u.commentHash?.length ? u.commentHash.toString('hex') : u.comment === '' ? undefined : prev?.commentHash
+          const comment = u.comment ?? (commentHash !== prev?.commentHash ? undefined : prev?.comment)
+          if (comment) next.comment = comment
+          if (commentHash) next.commentHash = commentHash
+          let textureHash = u.textureHash?.length ? u.textureHash.toString('hex') : prev?.textureHash
+          if (u.texture) textureHash = u.texture.length ? createHash('sha1').update(u.texture).digest('hex') : undefined
+          if (textureHash) next.textureHash = textureHash
+
           this.users.set(next.id, next)
+          if (registeredId != null && next.name) this._cacheRegisteredUser(registeredId, next.name)
+          else if (registeredId == null && prev?.registeredId != null) this._forgetRegisteredUser(prev.registeredId)
+          // Sent ahead of the upsert so consumers don't request a texture they are about to receive.
+          if (u.texture) this.events.emit('userTexture', { userId: next.id, texture: u.texture, ...(textureHash ? { textureHash } : {}) })
           this.events.emit('userUpsert', next)
+          if (next.id === this.selfUserId && this._synced && next.channelId != null && next.channelId !== prev?.channelId) {
+            this.queryPermissions(next.channelId)
+          }
           return
         }
         case TcpMessageType.UserRemove: {
@@ -346,6 +815,155 @@ export class MumbleTcpClient {
           })
           return
         }
+        case TcpMessageType.ACL: {
+          const { query: _query, ...acl } = decodeAcl(payload)
+          this.events.emit('acl', acl)
+          return
+        }
+        case TcpMessageType.BanList: {
+          const bans: BanEntry[] = decodeBanList(payload).bans.map((b) => {
+            const entry: BanEntry = banAddressToString(b.address, b.mask)
+            if (b.name) entry.name = b.name
+            if (b.hash) entry.certHash = b.hash
+            if (b.reason) entry.reason = b.reason
+            if (b.start) entry.start = b.start
+            if (b.duration != null) entry.duration = b.duration
+            return entry
+          })
+          if (this._pendingBanDurations.length && this._applyPendingBanDurations(bans)) {
+            this.updateBanList(bans)
+          }
+          this.events.emit('banList', bans)
+          return
+        }
+        case TcpMessageType.UserList: {
+          const users = decodeUserList(payload).users.map((u) => {
+            const entry: RegisteredUser = { userId: u.userId, name: u.name ?? '' }
+            if (u.lastSeen) entry.lastSeen = u.lastSeen
+            if (u.lastChannel != null) entry.lastChannelId = u.lastChannel
+            if (entry.name) this._cacheRegisteredUser(entry.userId, entry.name)
+            return entry
+          })
+          this.events.emit('userList', users)
+          return
+        }
+        case TcpMessageType.PluginDataTransmission: {
+          const msg = decodePluginDataTransmission(payload)
+          if (msg.senderSession == null || !msg.dataId) return
+          this.events.emit('pluginData', { senderId: msg.senderSession, dataId: msg.dataId, data: msg.data ?? Buffer.alloc(0) })
+          return
+        }
+        case TcpMessageType.QueryUsers: {
+          const reply = decodeQueryUsers(payload)
+          const batch = this._sentUserQueries.shift() ?? { ids: [], names: [] }
+          const result: ResolvedUsers = { users: [], unknownIds: [], unknownNames: [] }
+          reply.ids.forEach((userId, i) => {
+            const name = reply.names[i]
+            if (name == null) return
+            this._cacheRegisteredUser(userId, name)
+            result.users.push({ userId, name })
+          })
+          for (const userId of batch.ids) {
+            this._pendingUserIds.delete(userId)
+            if (this._registeredNames.has(userId)) continue
+            this._registeredNames.set(userId, null)
+            result.unknownIds.push(userId)
+          }
+          for (const name of batch.names) {
+            const key = name.toLowerCase()
+            this._pendingUserNames.delete(key)
+            if (this._registeredIds.has(key)) continue
+            this._registeredIds.set(key, null)
+            result.unknownNames.push(name)
+          }
+          this.events.emit('usersResolved', result)
+          return
+        }
+        case TcpMessageType.ServerConfig: {
+          const cfg = decodeServerConfig(payload)
+          if (cfg.maxBandwidth != null) this.serverInfo.maxBandwidth = cfg.maxBandwidth
+          if (cfg.welcomeText != null) this.serverInfo.welcomeMessage = cfg.welcomeText
+          const next: MumbleServerConfig = { ...this.serverConfig }
+          if (cfg.allowHtml != null) next.allowHtml = cfg.allowHtml
+          if (cfg.messageLength != null) next.messageLength = cfg.messageLength
+          if (cfg.imageMessageLength != null) next.imageMessageLength = cfg.imageMessageLength
+          if (cfg.maxUsers != null) next.maxUsers = cfg.maxUsers
+          if (cfg.recordingAllowed != null) next.recordingAllowed = cfg.recordingAllowed
+          this.serverConfig = next
+          this.events.emit('serverConfig', { ...next })
+          return
+        }
+        case TcpMessageType.SuggestConfig: {
+          const sug = decodeSuggestConfig(payload)
+          const next: MumbleServerConfig = { ...this.serverConfig }
+          if (sug.pushToTalk != null) next.suggestPushToTalk = sug.pushToTalk
+          if (sug.positional != null) next.suggestPositional = sug.positional
+          if (sug.versionV2 != null) next.suggestVersion = formatVersionV2(sug.versionV2)
+          else if (sug.versionV1 != null) next.suggestVersion = formatVersionV1(sug.versionV1)
+          this.serverConfig = next
+          this.events.emit('serverConfig', { ...next })
+          return
+        }
+        case TcpMessageType.ContextActionModify: {
+          const mod = decodeContextActionModify(payload)
+          if (!mod.action) return
+          if (mod.operation === 1) {
+            if (!this.contextActions.delete(mod.action)) return
+          } else {
+            const context = mod.context ?? 0
+            const contexts: ContextAction['contexts'] = []
+            if (context & ContextActionContext.Server) contexts.push('server')
+            if (context & ContextActionContext.Channel) contexts.push('channel')
+            if (context & ContextActionContext.User) contexts.push('user')
+            this.contextActions.set(mod.action, { action: mod.action, text: mod.text || mod.action, contexts })
+          }
+          this.events.emit('contextActions', [...this.contextActions.values()])
+          return
+        }
+        case TcpMessageType.UserStats: {
+          const st = decodeUserStats(payload)
+          if (st.session == null) return
+          const stats: UserStats = { userId: st.session, statsOnly: st.statsOnly }
+          if (st.fromClient) stats.fromClient = st.fromClient
+          if (st.fromServer) stats.fromServer = st.fromServer
+          if (st.udpPackets != null) stats.udpPackets = st.udpPackets
+          if (st.tcpPackets != null) stats.tcpPackets = st.tcpPackets
+          if (st.udpPingAvg != null) stats.udpPingAvg = st.udpPingAvg
+          if (st.udpPingVar != null) stats.udpPingVar = st.udpPingVar
+          if (st.tcpPingAvg != null) stats.tcpPingAvg = st.tcpPingAvg
+          if (st.tcpPingVar != null) stats.tcpPingVar = st.tcpPingVar
+          if (st.bandwidth != null) stats.bandwidth = st.bandwidth
+          if (st.onlineSecs != null) stats.onlineSecs = st.onlineSecs
+          if (st.idleSecs != null) stats.idleSecs = st.idleSecs
+          if (!st.statsOnly) {
+            const v = st.version
+            const version = v?.versionV2 != null ? formatVersionV2(v.versionV2) : v?.versionV1 != null ? formatVersionV1(v.versionV1) : undefined
+            if (version) stats.version = version
+            if (v?.release) stats.release = v.release
+            if (v?.os) stats.os = v.os
+            if (v?.osVersion) stats.osVersion = v.osVersion
+            if (st.address?.length) stats.address = banAddressToString(st.address, 128).address
+            stats.strongCertificate = st.strongCertificate
+            stats.opus = st.opus
+          }
+          this.events.emit('userStats', stats)
+          return
+        }
+        case TcpMessageType.PermissionQuery: {
+          const pq = decodePermissionQuery(payload)
+          // flush: the server's ACL cache changed, so every cached value is stale.
+          if (pq.flush) {
+            this._permissionQueries.clear()
+            for (const id of this.channels.keys()) this._setPermissions(id, undefined)
+          }
+          if (pq.channelId != null) {
+            this._permissionQueries.delete(pq.channelId)
+            this._setPermissions(pq.channelId, pq.permissions)
+          }
+          const selfChannelId = pq.flush ? this.users.get(this.selfUserId)?.channelId : undefined
+          if (selfChannelId != null) this.queryPermissions(selfChannelId)
+          return
+        }
         case TcpMessageType.PermissionDenied: {
           const denied = decodePermissionDenied(payload)
           this.events.emit('denied', denied)
@@ -11,10 +11,23 @@ export enum TcpMessageType {
   ChannelState = 7,
   UserRemove = 8,
   UserState = 9,
+  BanList = 10,
   TextMessage = 11,
   PermissionDenied = 12,
+  ACL = 13,
+  QueryUsers = 14,
   CryptSetup = 15,
-  CodecVersion = 21
+  ContextActionModify = 16,
+  ContextAction = 17,
+  UserList = 18,
+  VoiceTarget = 19,
+  PermissionQuery = 20,
+  CodecVersion = 21,
+  UserStats = 22,
+  RequestBlob = 23,
+  ServerConfig = 24,
+  SuggestConfig = 25,
+  PluginDataTransmission = 26
 }
 
 export type VersionMessage = {
@@ -214,6 +227,8 @@ export type ChannelStateMessage = {
   linksAdd: number[]
   linksRemove: number[]
   description?: string
+  // SHA-1 of a description too long to be sent inline; fetch it with RequestBlob.
+  descriptionHash?: Buffer
   position?: number
 }
 
@@ -248,6 +263,9 @@ export function decodeChannelState(buf: Buffer): ChannelStateMessage {
       case 9:
         out.position = r.readInt32()
         break
+      case 10:
+        out.descriptionHash = Buffer.from(r.readBytes())
+        break
       default:
         r.skip(tag.wireType)
         break
@@ -279,12 +297,21 @@ export function decodeChannelRemove(buf: Buffer): ChannelRemoveMessage {
 export type UserStateMessage = {
   session?: number
   name?: string
+  // Registration id; only present for users registered on the server (0 is SuperUser).
+  userId?: number
   channelId?: number
   mute?: boolean
   deaf?: boolean
   suppress?: boolean
   selfMute?: boolean
   selfDeaf?: boolean
+  prioritySpeaker?: boolean
+  hash?: string
+  // Comment and avatar come inline when small, otherwise only their SHA-1 hashes (see RequestBlob).
+  comment?: string
+  commentHash?: Buffer
+  texture?: Buffer
+  textureHash?: Buffer
 }
 
 export function decodeUserState(buf: Buffer): UserStateMessage {
@@ -300,6 +327,9 @@ export function decodeUserState(buf: Buffer): UserStateMessage {
       case 3:
         out.name = r.readString()
         break
+      case 4:
+        out.userId = r.readUint32()
+        break
       case 5:
         out.channelId = r.readUint32()
         break
@@ -318,6 +348,24 @@ export function decodeUserState(buf: Buffer): UserStateMessage {
       case 10:
         out.selfDeaf = r.readBool()
         break
+      case 11:
+        out.texture = Buffer.from(r.readBytes())
+        break
+      case 14:
+        out.comment = r.readString()
+        break
+      case 15:
+        out.hash = r.readString()
+        break
+      case 16:
+        out.commentHash = Buffer.from(r.readBytes())
+        break
+      case 17:
+        out.textureHash = Buffer.from(r.readBytes())
+        break
+      case 18:
+        out.prioritySpeaker = r.readBool()
+        break
       default:
         r.skip(tag.wireType)
         break
@@ -426,6 +474,42 @@ export function decodePermissionDenied(buf: Buffer): PermissionDeniedMessage {
   return out
 }
 
+export type PermissionQueryMessage = {
+  channelId?: number
+  permissions?: number
+  flush?: boolean
+}
+
+export function encodePermissionQuery(msg: PermissionQueryMessage): Buffer {
+  const w = new ProtobufWriter()
+  if (msg.channelId != null) w.uint32(1, msg.channelId)
+  return w.finish()
+}
+
+export function decodePermissionQuery(buf: Buffer): PermissionQueryMessage {
+  const r = new ProtobufReader(buf)
+  const out: PermissionQueryMessage = {}
+  for (;;) {
+    const tag = r.readTag()
+    if (!tag) break
+    switch (tag.fieldNumber) {
+      case 1:
+        out.channelId = r.readUint32()
+        break
+      case 2:
+        out.permissions = r.readUint32()
+        break
+      case 3:
+        out.flush = r.readBool()
+        break
+      default:
+        r.skip(tag.wireType)
+        break
+    }
+  }
+  return out
+}
+
 export type CodecVersionMessage = {
   opus?: boolean
 }
@@ -463,12 +547,780 @@ export function encodeTextMessage(msg: OutboundTextMessage): Buffer {
 
 export type OutboundUserState = {
   session?: number
+  userId?: number
   channelId?: number
+  mute?: boolean
+  deaf?: boolean
+  suppress?: boolean
+  selfMute?: boolean
+  selfDeaf?: boolean
+  prioritySpeaker?: boolean
+  texture?: Buffer
+  pluginContext?: Buffer
+  pluginIdentity?: string
+  comment?: string
 }
 
 export function encodeUserState(msg: OutboundUserState): Buffer {
   const w = new ProtobufWriter()
   if (msg.session != null) w.uint32(1, msg.session)
+  if (msg.userId != null) w.uint32(4, msg.userId)
   if (msg.channelId != null) w.uint32(5, msg.channelId)
+  if (msg.mute != null) w.bool(6, msg.mute)
+  if (msg.deaf != null) w.bool(7, msg.deaf)
+  if (msg.suppress != null) w.bool(8, msg.suppress)
+  if (msg.selfMute != null) w.bool(9, msg.selfMute)
+  if (msg.selfDeaf != null) w.bool(10, msg.selfDeaf)
+  if (msg.texture != null) w.bytes(11, msg.texture)
+  if (msg.pluginContext != null) w.bytes(12, msg.pluginContext)
+  if (msg.pluginIdentity != null) w.string(13, msg.pluginIdentity)
+  if (msg.comment != null) w.string(14, msg.comment)
+  if (msg.prioritySpeaker != null) w.bool(18, msg.prioritySpeaker)
+  return w.finish()
+}
+
+export type OutboundUserRemove = {
+  session: number
+  reason?: string
+  ban?: boolean
+}
+
+export function encodeUserRemove(msg: OutboundUserRemove): Buffer {
+  const w = new ProtobufWriter()
+  w.uint32(1, msg.session)
+  if (msg.reason != null) w.string(3, msg.reason)
+  if (msg.ban != null) w.bool(4, msg.ban)
+  return w.finish()
+}
+
+export type OutboundChannelState = {
+  channelId?: number
+  parent?: number
+  name?: string
+  description?: string
+  temporary?: boolean
+  position?: number
+}
+
+export function encodeChannelState(msg: OutboundChannelState): Buffer {
+  const w = new ProtobufWriter()
+  if (msg.channelId != null) w.uint32(1, msg.channelId)
+  if (msg.parent != null) w.uint32(2, msg.parent)
+  if (msg.name != null) w.string(3, msg.name)
+  if (msg.description != null) w.string(5, msg.description)
+  if (msg.temporary != null) w.bool(8, msg.temporary)
+  if (msg.position != null) w.int32(9, msg.position)
+  return w.finish()
+}
+
+export function encodeChannelRemove(msg: ChannelRemoveMessage): Buffer {
+  const w = new ProtobufWriter()
+  w.uint32(1, msg.channelId)
+  return w.finish()
+}
+
+export type VoiceTargetEntry = {
+  sessions?: number[]
+  channelId?: number
+  group?: string
+  links?: boolean
+  children?: boolean
+}
+
+export type VoiceTargetMessage = {
+  id: number
+  targets: VoiceTargetEntry[]
+}
+
+export function encodeVoiceTarget(msg: VoiceTargetMessage): Buffer {
+  const w = new ProtobufWriter()
+  w.uint32(1, msg.id)
+  for (const t of msg.targets) {
+    const tw = new ProtobufWriter()
+    for (const s of t.sessions ?? []) tw.uint32(1, s)
+    if (t.channelId != null) tw.uint32(2, t.channelId)
+    if (t.group != null) tw.string(3, t.group)
+    if (t.links != null) tw.bool(4, t.links)
+    if (t.children != null) tw.bool(5, t.children)
+    w.bytes(2, tw.finish())
+  }
+  return w.finish()
+}
+
+export type AclGroupMessage = {
+  name: string
+  inherited: boolean
+  inherit: boolean
+  inheritable: boolean
+  add: number[]
+  remove: number[]
+  inheritedMembers: number[]
+}
+
+export type AclEntryMessage = {
+  applyHere: boolean
+  applySubs: boolean
+  inherited: boolean
+  userId?: number
+  group?: string
+  grant: number
+  deny: number
+}
+
+export type AclMessage = {
+  channelId: number
+  inheritAcls: boolean
+  groups: AclGroupMessage[]
+  acls: AclEntryMessage[]
+  query?: boolean
+}
+
+function decodeAclGroup(buf: Buffer): AclGroupMessage {
+  const r = new ProtobufReader(buf)
+  // proto2 defaults: inherited/inherit/inheritable are true unless sent.
+  const out: AclGroupMessage = { name: '', inherited: true, inherit: true, inheritable: true, add: [], remove: [], inheritedMembers: [] }
+  for (;;) {
+    const tag = r.readTag()
+    if (!tag) break
+    switch (tag.fieldNumber) {
+      case 1:
+        out.name = r.readString()
+        break
+      case 2:
+        out.inherited = r.readBool()
+        break
+      case 3:
+        out.inherit = r.readBool()
+        break
+      case 4:
+        out.inheritable = r.readBool()
+        break
+      case 5:
+        out.add.push(r.readUint32())
+        break
+      case 6:
+        out.remove.push(r.readUint32())
+        break
+      case 7:
+        out.inheritedMembers.push(r.readUint32())
+        break
+      default:
+        r.skip(tag.wireType)
+        break
+    }
+  }
+  return out
+}
+
+function decodeAclEntry(buf: Buffer): AclEntryMessage {
+  const r = new ProtobufReader(buf)
+  const out: AclEntryMessage = { applyHere: true, applySubs: true, inherited: true, grant: 0, deny: 0 }
+  for (;;) {
+    const tag = r.readTag()
+    if (!tag) break
+    switch (tag.fieldNumber) {
+      case 1:
+        out.applyHere = r.readBool()
+        break
+      case 2:
+        out.applySubs = r.readBool()
+        break
+      case 3:
+        out.inherited = r.readBool()
+        break
+      case 4:
+        out.userId = r.readUint32()
+        break
+      case 5:
+        out.group = r.readString()
+        break
+      case 6:
+        out.grant = r.readUint32()
+        break
+      case 7:
+        out.deny = r.readUint32()
+        break
+      default:
+        r.skip(tag.wireType)
+        break
+    }
+  }
+  return out
+}
+
+export function decodeAcl(buf: Buffer): AclMessage {
+  const r = new ProtobufReader(buf)
+  const out: AclMessage = { channelId: 0, inheritAcls: true, groups: [], acls: [] }
+  for (;;) {
+    const tag = r.readTag()
+    if (!tag) break
+    switch (tag.fieldNumber) {
+      case 1:
+        out.channelId = r.readUint32()
+        break
+      case 2:
+        out.inheritAcls = r.readBool()
+        break
+      case 3:
+        out.groups.push(decodeAclGroup(r.readBytes()))
+        break
+      case 4:
+        out.acls.push(decodeAclEntry(r.readBytes()))
+        break
+      case 5:
+        out.query = r.readBool()
+        break
+      default:
+        r.skip(tag.wireType)
+        break
+    }
+  }
+  return out
+}
+
+export function encodeAcl(msg: AclMessage): Buffer {
+  const w = new ProtobufWriter()
+  w.uint32(1, msg.channelId)
+  w.bool(2, msg.inheritAcls)
+  for (const g of msg.groups) {
+    const gw = new ProtobufWriter()
+    gw.string(1, g.name)
+    gw.bool(2, g.inherited)
+    gw.bool(3, g.inherit)
+    gw.bool(4, g.inheritable)
+    for (const id of g.add) gw.uint32(5, id)
+    for (const id of g.remove) gw.uint32(6, id)
+    w.bytes(3, gw.finish())
+  }
+  for (const a of msg.acls) {
+    const aw = new ProtobufWriter()
+    aw.bool(1, a.applyHere)
+    aw.bool(2, a.applySubs)
+    aw.bool(3, a.inherited)
+    if (a.userId != null) aw.uint32(4, a.userId)
+    if (a.group != null) aw.string(5, a.group)
+    aw.uint32(6, a.grant)
+    aw.uint32(7, a.deny)
+    w.bytes(4, aw.finish())
+  }
+  if (msg.query) w.bool(5, true)
   return w.finish()
 }
+
+// `address` is always 16 bytes (IPv4 as ::ffff:a.b.c.d) and `mask` counts bits of that 128-bit form.
+export type BanEntryMessage = {
+  address: Buffer
+  mask: number
+  name?: string
+  hash?: string
+  reason?: string
+  start?: string
+  duration?: number
+}
+
+export type BanListMessage = {
+  bans: BanEntryMessage[]
+  query?: boolean
+}
+
+function decodeBanEntry(buf: Buffer): BanEntryMessage {
+  const r = new ProtobufReader(buf)
+  const out: BanEntryMessage = { address: Buffer.alloc(16), mask: 128 }
+  for (;;) {
+    const tag = r.readTag()
+    if (!tag) break
+    switch (tag.fieldNumber) {
+      case 1:
+        out.address = r.readBytes()
+        break
+      case 2:
+        out.mask = r.readUint32()
+        break
+      case 3:
+        out.name = r.readString()
+        break
+      case 4:
+        out.hash = r.readString()
+        break
+      case 5:
+        out.reason = r.readString()
+        break
+      case 6:
+        out.start = r.readString()
+        break
+      case 7:
+        out.duration = r.readUint32()
+        break
+      default:
+        r.skip(tag.wireType)
+        break
+    }
+  }
+  return out
+}
+
+export function decodeBanList(buf: Buffer): BanListMessage {
+  const r = new ProtobufReader(buf)
+  const out: BanListMessage = { bans: [] }
+  for (;;) {
+    const tag = r.readTag()
+    if (!tag) break
+    switch (tag.fieldNumber) {
+      case 1:
+        out.bans.push(decodeBanEntry(r.readBytes()))
+        break
+      case 2:
+        out.query = r.readBool()
+        break
+      default:
+        r.skip(tag.wireType)
+        break
+    }
+  }
+  return out
+}
+
+export function encodeBanList(msg: BanListMessage): Buffer {
+  const w = new ProtobufWriter()
+  for (const b of msg.bans) {
+    const bw = new ProtobufWriter()
+    bw.bytes(1, b.address)
+    bw.uint32(2, b.mask)
+    if (b.name != null) bw.string(3, b.name)
+    if (b.hash != null) bw.string(4, b.hash)
+    if (b.reason != null) bw.string(5, b.reason)
+    if (b.start != null) bw.string(6, b.start)
+    if (b.duration != null) bw.uint32(7, b.duration)
+    w.bytes(1, bw.finish())
+  }
+  if (msg.query) w.bool(2, true)
+  return w.finish()
+}
+
+export type UserListEntryMessage = {
+  userId: number
+  name?: string
+  lastSeen?: string
+  lastChannel?: number
+}
+
+export type UserListMessage = {
+  users: UserListEntryMessage[]
+}
+
+function decodeUserListEntry(buf: Buffer): UserListEntryMessage {
+  const r = new ProtobufReader(buf)
+  const out: UserListEntryMessage = { userId: 0 }
+  for (;;) {
+    const tag = r.readTag()
+    if (!tag) break
+    switch (tag.fieldNumber) {
+      case 1:
+        out.userId = r.readUint32()
+        break
+      case 2:
+        out.name = r.readString()
+        break
+      case 3:
+        out.lastSeen = r.readString()
+        break
+      case 4:
+        out.lastChannel = r.readUint32()
+        break
+      default:
+        r.skip(tag.wireType)
+        break
+    }
+  }
+  return out
+}
+
+export function decodeUserList(buf: Buffer): UserListMessage {
+  const r = new ProtobufReader(buf)
+  const out: UserListMessage = { users: [] }
+  for (;;) {
+    const tag = r.readTag()
+    if (!tag) break
+    if (tag.fieldNumber === 1) {
+      out.users.push(decodeUserListEntry(r.readBytes()))
+    } else {
+      r.skip(tag.wireType)
+    }
+  }
+  return out
+}
+
+// An empty list is a query. In an update, an entry with a name renames the user and one without unregisters it.
+export function encodeUserList(msg: UserListMessage): Buffer {
+  const w = new ProtobufWriter()
+  for (const u of msg.users) {
+    const uw = new ProtobufWriter()
+    uw.uint32(1, u.userId)
+    if (u.name != null) uw.string(2, u.name)
+    w.bytes(1, uw.finish())
+  }
+  return w.finish()
+}
+
+export type RequestBlobMessage = {
+  sessionTextures?: number[]
+  sessionComments?: number[]
+  channelDescriptions?: number[]
+}
+
+export function encodeRequestBlob(msg: RequestBlobMessage): Buffer {
+  const w = new ProtobufWriter()
+  // All three fields are declared [packed = true].
+  if (msg.sessionTextures?.length) w.packedUint32s(1, msg.sessionTextures)
+  if (msg.sessionComments?.length) w.packedUint32s(2, msg.sessionComments)
+  if (msg.channelDescriptions?.length) w.packedUint32s(3, msg.channelDescriptions)
+  return w.finish()
+}
+
+export type UserStatsMessage = {
+  session?: number
+  statsOnly?: boolean
+}
+
+export function encodeUserStats(msg: UserStatsMessage): Buffer {
+  const w = new ProtobufWriter()
+  if (msg.session != null) w.uint32(1, msg.session)
+  if (msg.statsOnly) w.bool(2, true)
+  return w.finish()
+}
+
+// Crypt statistics of the UDP channel as counted by one side.
+export type PacketStatsMessage = {
+  good: number
+  late: number
+  lost: number
+  resync: number
+}
+
+export type UserStatsReplyMessage = {
+  session?: number
+  statsOnly: boolean
+  fromClient?: PacketStatsMessage
+  fromServer?: PacketStatsMessage
+  udpPackets?: number
+  tcpPackets?: number
+  udpPingAvg?: number
+  udpPingVar?: number
+  tcpPingAvg?: number
+  tcpPingVar?: number
+  version?: VersionMessage
+  // Raw 16-byte (IPv4-mapped) address; only sent to users allowed to see it.
+  address?: Buffer
+  bandwidth?: number
+  onlineSecs?: number
+  idleSecs?: number
+  strongCertificate: boolean
+  opus: boolean
+}
+
+function decodePacketStats(buf: Buffer): PacketStatsMessage {
+  const r = new ProtobufReader(buf)
+  const out: PacketStatsMessage = { good: 0, late: 0, lost: 0, resync: 0 }
+  for (;;) {
+    const tag = r.readTag()
+    if (!tag) break
+    switch (tag.fieldNumber) {
+      case 1:
+        out.good = r.readUint32()
+        break
+      case 2:
+        out.late = r.readUint32()
+        break
+      case 3:
+        out.lost = r.readUint32()
+        break
+      case 4:
+        out.resync = r.readUint32()
+        break
+      default:
+        r.skip(tag.wireType)
+        break
+    }
+  }
+  return out
+}
+
+export function decodeUserStats(buf: Buffer): UserStatsReplyMessage {
+  const r = new ProtobufReader(buf)
+  const out: UserStatsReplyMessage = { statsOnly: false, strongCertificate: false, opus: false }
+  for (;;) {
+    const tag = r.readTag()
+    if (!tag) break
+    switch (tag.fieldNumber) {
+      case 1:
+        out.session = r.readUint32()
+        break
+      case 2:
+        out.statsOnly = r.readBool()
+        break
+      case 4:
+        out.fromClient = decodePacketStats(r.readBytes())
+        break
+      case 5:
+        out.fromServer = decodePacketStats(r.readBytes())
+        break
+      case 6:
+        out.udpPackets = r.readUint32()
+        break
+      case 7:
+        out.tcpPackets = r.readUint32()
+        break
+      case 8:
+        out.udpPingAvg = r.readFloat()
+        break
+      case 9:
+        out.udpPingVar = r.readFloat()
+        break
+      case 10:
+        out.tcpPingAvg = r.readFloat()
+        break
+      case 11:
+        out.tcpPingVar = r.readFloat()
+        break
+      case 12:
+        out.version = decodeVersion(r.readBytes())
+        break
+      case 14:
+        out.address = Buffer.from(r.readBytes())
+        break
+      case 15:
+        out.bandwidth = r.readUint32()
+        break
+      case 16:
+        out.onlineSecs = r.readUint32()
+        break
+      case 17:
+        out.idleSecs = r.readUint32()
+        break
+      case 18:
+        out.strongCertificate = r.readBool()
+        break
+      case 19:
+        out.opus = r.readBool()
+        break
+      default:
+        r.skip(tag.wireType)
+        break
+    }
+  }
+  return out
+}
+
+// Bits of ContextActionModify.context
+export const ContextActionContext = {
+  Server: 0x01,
+  Channel: 0x02,
+  User: 0x04
+} as const
+
+export type ContextActionModifyMessage = {
+  action: string
+  text?: string
+  context?: number
+  // 0 = add, 1 = remove
+  operation: number
+}
+
+export function decodeContextActionModify(buf: Buffer): ContextActionModifyMessage {
+  const r = new ProtobufReader(buf)
+  const out: ContextActionModifyMessage = { action: '', operation: 0 }
+  for (;;) {
+    const tag = r.readTag()
+    if (!tag) break
+    switch (tag.fieldNumber) {
+      case 1:
+        out.action = r.readString()
+        break
+      case 2:
+        out.text = r.readString()
+        break
+      case 3:
+        out.context = r.readUint32()
+        break
+      case 4:
+        out.operation = r.readUint32()
+        break
+      default:
+        r.skip(tag.wireType)
+        break
+    }
+  }
+  return out
+}
+
+export type ContextActionMessage = {
+  action: string
+  session?: number
+  channelId?: number
+}
+
+export function encodeContextAction(msg: ContextActionMessage): Buffer {
+  const w = new ProtobufWriter()
+  if (msg.session != null) w.uint32(1, msg.session)
+  if (msg.channelId != null) w.uint32(2, msg.channelId)
+  w.string(3, msg.action)
+  return w.finish()
+}
+
+export type ServerConfigMessage = {
+  maxBandwidth?: number
+  welcomeText?: string
+  allowHtml?: boolean
+  messageLength?: number
+  imageMessageLength?: number
+  maxUsers?: number
+  recordingAllowed?: boolean
+}
+
+export function decodeServerConfig(buf: Buffer): ServerConfigMessage {
+  const r = new ProtobufReader(buf)
+  const out: ServerConfigMessage = {}
+  for (;;) {
+    const tag = r.readTag()
+    if (!tag) break
+    switch (tag.fieldNumber) {
+      case 1:
+        out.maxBandwidth = r.readUint32()
+        break
+      case 2:
+        out.welcomeText = r.readString()
+        break
+      case 3:
+        out.allowHtml = r.readBool()
+        break
+      case 4:
+        out.messageLength = r.readUint32()
+        break
+      case 5:
+        out.imageMessageLength = r.readUint32()
+        break
+      case 6:
+        out.maxUsers = r.readUint32()
+        break
+      case 7:
+        out.recordingAllowed = r.readBool()
+        break
+      default:
+        r.skip(tag.wireType)
+        break
+    }
+  }
+  return out
+}
+
+export type SuggestConfigMessage = {
+  versionV1?: number
+  versionV2?: bigint
+  positional?: boolean
+  pushToTalk?: boolean
+}
+
+export function decodeSuggestConfig(buf: Buffer): SuggestConfigMessage {
+  const r = new ProtobufReader(buf)
+  const out: SuggestConfigMessage = {}
+  for (;;) {
+    const tag = r.readTag()
+    if (!tag) break
+    switch (tag.fieldNumber) {
+      case 1:
+        out.versionV1 = r.readUint32()
+        break
+      case 2:
+        out.positional = r.readBool()
+        break
+      case 3:
+        out.pushToTalk = r.readBool()
+        break
+      case 4:
+        out.versionV2 = r.readUint64()
+        break
+      default:
+        r.skip(tag.wireType)
+        break
+    }
+  }
+  return out
+}
+
+// Used both ways: the query lists ids and/or names, the reply pairs `ids[i]` with `names[i]` and leaves out
+// anything the server doesn't know.
+export type QueryUsersMessage = {
+  ids: number[]
+  names: string[]
+}
+
+export function encodeQueryUsers(msg: QueryUsersMessage): Buffer {
+  const w = new ProtobufWriter()
+  for (const id of msg.ids) w.uint32(1, id)
+  for (const name of msg.names) w.string(2, name)
+  return w.finish()
+}
+
+export function decodeQueryUsers(buf: Buffer): QueryUsersMessage {
+  const r = new ProtobufReader(buf)
+  const out: QueryUsersMessage = { ids: [], names: [] }
+  for (;;) {
+    const tag = r.readTag()
+    if (!tag) break
+    switch (tag.fieldNumber) {
+      case 1:
+        out.ids.push(r.readUint32())
+        break
+      case 2:
+        out.names.push(r.readString())
+        break
+      default:
+        r.skip(tag.wireType)
+        break
+    }
+  }
+  return out
+}
+
+export type PluginDataTransmissionMessage = {
+  senderSession?: number
+  receiverSessions: number[]
+  data?: Buffer
+  dataId?: string
+}
+
+export function encodePluginDataTransmission(msg: PluginDataTransmissionMessage): Buffer {
+  const w = new ProtobufWriter()
+  if (msg.senderSession != null) w.uint32(1, msg.senderSession)
+  if (msg.receiverSessions.length) w.packedUint32s(2, msg.receiverSessions)
+  if (msg.data) w.bytes(3, msg.data)
+  if (msg.dataId != null) w.string(4, msg.dataId)
+  return w.finish()
+}
+
+export function decodePluginDataTransmission(buf: Buffer): PluginDataTransmissionMessage {
+  const r = new ProtobufReader(buf)
+  const out: PluginDataTransmissionMessage = { receiverSessions: [] }
+  for (;;) {
+    const tag = r.readTag()
+    if (!tag) break
+    switch (tag.fieldNumber) {
+      case 1:
+        out.senderSession = r.readUint32()
+        break
+      case 2:
+        r.readUint32s(tag.wireType, out.receiverSessions)
+        break
+      case 3:
+        out.data = r.readBytes()
+        break
+      case 4:
+        out.dataId = r.readString()
+        break
+      default:
+        r.skip(tag.wireType)
+        break
+    }
+  }
+  return out
+}
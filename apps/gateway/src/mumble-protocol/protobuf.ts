@@ -66,6 +66,33 @@ export class ProtobufReader {
     return this.readVarint() !== 0n
   }
 
+  readFloat(): number {
+    if (this._pos + 4 > this._buf.length) throw new Error('Unexpected EOF while reading fixed32')
+    const v = this._buf.readFloatLE(this._pos)
+    this._pos += 4
+    return v
+  }
+
+  // Accepts both packed (wire type 2) and unpacked (wire type 5) encodings of `repeated float`.
+  readFloats(wireType: number, out: number[]): void {
+    if (wireType === 5) {
+      out.push(this.readFloat())
+      return
+    }
+    const bytes = this.readBytes()
+    for (let i = 0; i + 4 <= bytes.length; i += 4) out.push(bytes.readFloatLE(i))
+  }
+
+  // Accepts both packed (wire type 2) and unpacked (wire type 0) encodings of `repeated uint32`.
+  readUint32s(wireType: number, out: number[]): void {
+    if (wireType === 0) {
+      out.push(this.readUint32())
+      return
+    }
+    const r = new ProtobufReader(this.readBytes())
+    while (!r.eof()) out.push(r.readUint32())
+  }
+
   readBytes(): Buffer {
     const length = this.readUint32()
     const end = this._pos + length
@@ -146,6 +173,25 @@ export class ProtobufWriter {
     this._pushVarint(value ? 1n : 0n)
   }
 
+  float(fieldNumber: number, value: number): void {
+    this._pushTag(fieldNumber, 5)
+    const b = Buffer.allocUnsafe(4)
+    b.writeFloatLE(value, 0)
+    this._chunks.push(b)
+  }
+
+  packedFloats(fieldNumber: number, values: number[]): void {
+    const b = Buffer.allocUnsafe(values.length * 4)
+    values.forEach((v, i) => b.writeFloatLE(v, i * 4))
+    this.bytes(fieldNumber, b)
+  }
+
+  packedUint32s(fieldNumber: number, values: number[]): void {
+    const w = new ProtobufWriter()
+    for (const v of values) w._pushVarint(BigInt.asUintN(32, BigInt(v)))
+    this.bytes(fieldNumber, w.finish())
+  }
+
   bytes(fieldNumber: number, value: Buffer): void {
     this._pushTag(fieldNumber, 2)
     this._pushVarint(BigInt(value.length))
@@ -5,7 +5,7 @@ import type { MumbleTcpClient } from './client.js'
 import type { CryptSetupMessage } from './messages.js'
 import { TypedEmitter } from './typed-emitter.js'
 import { CryptStateOCB2 } from './crypt-state-ocb2.js'
-import { decodeLegacyVoicePacketFromServer, writeMumbleVarint } from './voice-legacy.js'
+import { decodeVoicePacketFromServer, encodePingPacket } from './voice-packet.js'
 
 export type UdpVoiceOpusFrame = {
   userId: number
@@ -13,6 +13,7 @@ export type UdpVoiceOpusFrame = {
   sequence: bigint
   isLastFrame: boolean
   opus: Buffer
+  positionalData?: number[]
 }
 
 type Events = {
@@ -146,7 +147,7 @@ export class MumbleUdpVoiceClient {
     if (!this._crypt.isValid() || this._closed) return
 
     const ts = BigInt(Date.now())
-    const plain = Buffer.concat([Buffer.from([0x20]), writeMumbleVarint(ts)])
+    const plain = encodePingPacket(this._tcp.voicePacketFormat, ts)
 
     const encrypted = this._crypt.encrypt(plain)
     if (!encrypted) return
@@ -169,7 +170,7 @@ export class MumbleUdpVoiceClient {
     const plain = this._crypt.decrypt(msg)
     if (!plain) return
 
-    const decoded = decodeLegacyVoicePacketFromServer(plain)
+    const decoded = decodeVoicePacketFromServer(this._tcp.voicePacketFormat, plain)
     if (!decoded) return
 
     if (!this._udpReady) {
@@ -192,7 +193,8 @@ export class MumbleUdpVoiceClient {
         target: decoded.target,
         sequence: decoded.sequence,
         isLastFrame: decoded.isLastFrame,
-        opus: Buffer.from(decoded.opusData)
+        opus: Buffer.from(decoded.opusData),
+        ...(decoded.positionalData ? { positionalData: decoded.positionalData } : {})
       })
     }
   }
@@ -132,8 +132,14 @@ export type DecodedLegacyOpusPacket = {
   sequence: bigint
   isLastFrame: boolean
   opusData: Buffer
+  // Speaker position (x, y, z) from their positional audio plugin; only relayed between matching plugin contexts.
+  positionalData?: number[]
 }
 
+// Legacy packets append the position as three floats after the audio data. Mumble copies them in host byte order,
+// which is little-endian on every platform it ships for.
+const LEGACY_POSITION_BYTES = 12
+
 export type DecodedLegacyPingPacket = {
   kind: 'ping'
   timestamp: bigint
@@ -172,8 +178,9 @@ export function decodeLegacyVoicePacketFromServer(buf: Buffer): DecodedLegacyVoi
 
   if (size < 0 || offset + size > buf.length) return null
   const opusData = buf.subarray(offset, offset + size)
+  offset += size
 
-  return {
+  const out: DecodedLegacyOpusPacket = {
     kind: 'opus',
     target,
     sessionId: Number(session.value),
@@ -181,13 +188,23 @@ export function decodeLegacyVoicePacketFromServer(buf: Buffer): DecodedLegacyVoi
     isLastFrame,
     opusData
   }
+  if (offset + LEGACY_POSITION_BYTES <= buf.length) {
+    out.positionalData = [buf.readFloatLE(offset), buf.readFloatLE(offset + 4), buf.readFloatLE(offset + 8)]
+  }
+  return out
 }
 
 export function encodeLegacyPingPacket(timestamp: bigint): Buffer {
   return Buffer.concat([Buffer.from([0x20]), writeMumbleVarint(timestamp)])
 }
 
-export function encodeLegacyOpusPacketFromClient(params: { target: number; sequence: bigint; opusData?: Buffer; isLastFrame: boolean }): Buffer {
+export function encodeLegacyOpusPacketFromClient(params: {
+  target: number
+  sequence: bigint
+  opusData?: Buffer
+  isLastFrame: boolean
+  positionalData?: number[]
+}): Buffer {
   const target = params.target & 0x1f
   const header = ((4 & 0x07) << 5) | target
 
@@ -197,10 +214,14 @@ export function encodeLegacyOpusPacketFromClient(params: { target: number; seque
 
   const sizeTerm = params.isLastFrame ? BigInt(size | (1 << 13)) : BigInt(size)
 
-  return Buffer.concat([
-    Buffer.from([header]),
-    writeMumbleVarint(params.sequence),
-    writeMumbleVarint(sizeTerm),
-    opusData
-  ])
+  const chunks = [Buffer.from([header]), writeMumbleVarint(params.sequence), writeMumbleVarint(sizeTerm), opusData]
+  const pos = params.positionalData
+  if (pos && pos.length >= 3) {
+    const b = Buffer.allocUnsafe(LEGACY_POSITION_BYTES)
+    b.writeFloatLE(pos[0] ?? 0, 0)
+    b.writeFloatLE(pos[1] ?? 0, 4)
+    b.writeFloatLE(pos[2] ?? 0, 8)
+    chunks.push(b)
+  }
+  return Buffer.concat(chunks)
 }
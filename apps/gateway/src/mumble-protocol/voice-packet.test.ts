@@ -0,0 +1,115 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { ProtobufWriter } from './protobuf.js'
+import { writeMumbleVarint } from './voice-legacy.js'
+import { decodeVoicePacketFromServer, encodeOpusPacketFromClient, encodePingPacket, type VoicePacketFormat } from './voice-packet.js'
+
+// The server relays a client's packet with the sender's session added; these helpers do the same so the
+// client encoders can be checked against the server-side decoders.
+
+function relayLegacy(packet: Buffer, session: number): Buffer {
+  return Buffer.concat([packet.subarray(0, 1), writeMumbleVarint(BigInt(session)), packet.subarray(1)])
+}
+
+function relayProtobuf(packet: Buffer, session: number, context: number): Buffer {
+  // Later fields win, so the appended context replaces the client's target.
+  const w = new ProtobufWriter()
+  w.uint32(3, session)
+  w.uint32(2, context)
+  return Buffer.concat([packet, w.finish()])
+}
+
+function relay(format: VoicePacketFormat, packet: Buffer, session: number, target: number): Buffer {
+  return format === 'protobuf' ? relayProtobuf(packet, session, target) : relayLegacy(packet, session)
+}
+
+const opus = Buffer.from([0xfc, 0x01, 0x02, 0x03, 0xff])
+
+for (const format of ['legacy', 'protobuf'] as const) {
+  describe(`${format} voice packets`, () => {
+    it('round-trips an audio frame', () => {
+      const packet = encodeOpusPacketFromClient(format, { target: 2, sequence: 123456789n, opusData: opus, isLastFrame: false })
+      const decoded = decodeVoicePacketFromServer(format, relay(format, packet, 42, 2))
+
+      assert.deepEqual(decoded, { kind: 'opus', target: 2, sessionId: 42, sequence: 123456789n, isLastFrame: false, opusData: opus })
+    })
+
+    it('keeps the terminator bit', () => {
+      const packet = encodeOpusPacketFromClient(format, { target: 0, sequence: 7n, opusData: opus, isLastFrame: true })
+      const decoded = decodeVoicePacketFromServer(format, relay(format, packet, 1, 0))
+
+      assert.equal(decoded?.kind, 'opus')
+      assert.equal(decoded.kind === 'opus' && decoded.isLastFrame, true)
+    })
+
+    it('round-trips an empty terminator frame', () => {
+      const packet = encodeOpusPacketFromClient(format, { target: 1, sequence: 0n, isLastFrame: true })
+      const decoded = decodeVoicePacketFromServer(format, relay(format, packet, 3, 1))
+
+      assert.deepEqual(decoded, { kind: 'opus', target: 1, sessionId: 3, sequence: 0n, isLastFrame: true, opusData: Buffer.alloc(0) })
+    })
+
+    it('round-trips positional data', () => {
+      const positionalData = [1.5, -2.25, 10]
+      const packet = encodeOpusPacketFromClient(format, { target: 0, sequence: 9n, opusData: opus, isLastFrame: false, positionalData })
+      const decoded = decodeVoicePacketFromServer(format, relay(format, packet, 5, 0))
+
+      assert.equal(decoded?.kind, 'opus')
+      assert.deepEqual(decoded.kind === 'opus' ? decoded.positionalData : null, positionalData)
+      assert.deepEqual(decoded.kind === 'opus' ? decoded.opusData : null, opus)
+    })
+
+    it('round-trips a ping', () => {
+      const decoded = decodeVoicePacketFromServer(format, encodePingPacket(format, 1_700_000_000_123n))
+
+      assert.deepEqual(decoded, { kind: 'ping', timestamp: 1_700_000_000_123n })
+    })
+  })
+}
+
+describe('protobuf voice packets', () => {
+  it('reads the server context in place of the target', () => {
+    const packet = encodeOpusPacketFromClient('protobuf', { target: 5, sequence: 1n, opusData: opus, isLastFrame: false })
+    const decoded = decodeVoicePacketFromServer('protobuf', relayProtobuf(packet, 8, 2))
+
+    assert.equal(decoded?.kind === 'opus' && decoded.target, 2)
+  })
+})
+
+describe('legacy voice packets', () => {
+  // Position (1.5, -2.25, 10) as Mumble sends it: float32 little-endian after the Opus frame.
+  const position = '0000c03f' + '000010c0' + '00002041'
+
+  it('encodes the position as little-endian floats', () => {
+    const packet = encodeOpusPacketFromClient('legacy', {
+      target: 0,
+      sequence: 9n,
+      opusData: Buffer.from([0xfc, 0x00]),
+      isLastFrame: false,
+      positionalData: [1.5, -2.25, 10]
+    })
+
+    assert.equal(packet.toString('hex'), '800902fc00' + position)
+  })
+
+  it('decodes a little-endian position', () => {
+    const decoded = decodeVoicePacketFromServer('legacy', Buffer.from('80050902fc00' + position, 'hex'))
+
+    assert.deepEqual(decoded, {
+      kind: 'opus',
+      target: 0,
+      sessionId: 5,
+      sequence: 9n,
+      isLastFrame: false,
+      opusData: Buffer.from([0xfc, 0x00]),
+      positionalData: [1.5, -2.25, 10]
+    })
+  })
+
+  it('rejects a frame that claims more audio than it carries', () => {
+    const packet = encodeOpusPacketFromClient('legacy', { target: 0, sequence: 1n, opusData: opus, isLastFrame: false })
+    const truncated = relayLegacy(packet, 4).subarray(0, -2)
+
+    assert.equal(decodeVoicePacketFromServer('legacy', truncated), null)
+  })
+})
@@ -0,0 +1,31 @@
+import { decodeLegacyVoicePacketFromServer, encodeLegacyOpusPacketFromClient, encodeLegacyPingPacket } from './voice-legacy.js'
+import {
+  type DecodedProtobufVoicePacket,
+  decodeProtobufVoicePacketFromServer,
+  encodeProtobufOpusPacketFromClient,
+  encodeProtobufPingPacket
+} from './voice-protobuf.js'
+
+// `legacy` is the pre-1.5 varint format; `protobuf` is MumbleUDP.proto (used when both ends are >= 1.5).
+export type VoicePacketFormat = 'legacy' | 'protobuf'
+
+export type DecodedVoicePacket = DecodedProtobufVoicePacket
+
+export function decodeVoicePacketFromServer(format: VoicePacketFormat, buf: Buffer): DecodedVoicePacket | null {
+  try {
+    return format === 'protobuf' ? decodeProtobufVoicePacketFromServer(buf) : decodeLegacyVoicePacketFromServer(buf)
+  } catch {
+    return null
+  }
+}
+
+export function encodeOpusPacketFromClient(
+  format: VoicePacketFormat,
+  params: { target: number; sequence: bigint; opusData?: Buffer; isLastFrame: boolean; positionalData?: number[] }
+): Buffer {
+  return format === 'protobuf' ? encodeProtobufOpusPacketFromClient(params) : encodeLegacyOpusPacketFromClient(params)
+}
+
+export function encodePingPacket(format: VoicePacketFormat, timestamp: bigint): Buffer {
+  return format === 'protobuf' ? encodeProtobufPingPacket(timestamp) : encodeLegacyPingPacket(timestamp)
+}
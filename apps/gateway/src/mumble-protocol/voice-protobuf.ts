@@ -0,0 +1,98 @@
+import { ProtobufReader, ProtobufWriter } from './protobuf.js'
+import type { DecodedLegacyOpusPacket, DecodedLegacyPingPacket } from './voice-legacy.js'
+
+// Mumble >= 1.5 voice packets: one type byte followed by a MumbleUDP.proto message.
+export const PROTOBUF_UDP_AUDIO = 0
+export const PROTOBUF_UDP_PING = 1
+
+// `volume_adjustment` (field 7) is not decoded: Opus frames are forwarded untouched, so there is nowhere to apply it.
+export type DecodedProtobufOpusPacket = DecodedLegacyOpusPacket
+
+export type DecodedProtobufPingPacket = DecodedLegacyPingPacket
+
+export type DecodedProtobufVoicePacket = DecodedProtobufOpusPacket | DecodedProtobufPingPacket
+
+export function decodeProtobufVoicePacketFromServer(buf: Buffer): DecodedProtobufVoicePacket | null {
+  if (!buf.length) return null
+  const type = buf.readUInt8(0)
+  const r = new ProtobufReader(buf.subarray(1))
+
+  if (type === PROTOBUF_UDP_PING) {
+    let timestamp = 0n
+    for (;;) {
+      const tag = r.readTag()
+      if (!tag) break
+      if (tag.fieldNumber === 1) {
+        timestamp = r.readUint64()
+      } else {
+        r.skip(tag.wireType)
+      }
+    }
+    return { kind: 'ping', timestamp }
+  }
+
+  if (type !== PROTOBUF_UDP_AUDIO) return null
+
+  // Server -> client packets carry `context` (0 normal, 1 shout, 2 whisper, 3 listen) in place of `target`.
+  let target = 0
+  let sessionId = 0
+  let sequence = 0n
+  let isLastFrame = false
+  let opusData: Buffer = Buffer.alloc(0)
+  const positionalData: number[] = []
+
+  for (;;) {
+    const tag = r.readTag()
+    if (!tag) break
+    switch (tag.fieldNumber) {
+      case 1:
+      case 2:
+        target = r.readUint32() & 0x1f
+        break
+      case 3:
+        sessionId = r.readUint32()
+        break
+      case 4:
+        sequence = r.readUint64()
+        break
+      case 5:
+        opusData = r.readBytes()
+        break
+      case 6:
+        r.readFloats(tag.wireType, positionalData)
+        break
+      case 16:
+        isLastFrame = r.readBool()
+        break
+      default:
+        r.skip(tag.wireType)
+        break
+    }
+  }
+
+  const out: DecodedProtobufOpusPacket = { kind: 'opus', target, sessionId, sequence, isLastFrame, opusData }
+  if (positionalData.length) out.positionalData = positionalData
+  return out
+}
+
+export function encodeProtobufPingPacket(timestamp: bigint): Buffer {
+  const w = new ProtobufWriter()
+  w.uint64(1, timestamp)
+  return Buffer.concat([Buffer.from([PROTOBUF_UDP_PING]), w.finish()])
+}
+
+export function encodeProtobufOpusPacketFromClient(params: {
+  target: number
+  sequence: bigint
+  opusData?: Buffer
+  isLastFrame: boolean
+  positionalData?: number[]
+}): Buffer {
+  const w = new ProtobufWriter()
+  w.uint32(1, params.target & 0x1f)
+  w.uint64(4, params.sequence)
+  w.bytes(5, params.opusData ?? Buffer.alloc(0))
+  if (params.positionalData?.length) w.packedFloats(6, params.positionalData)
+  if (params.isLastFrame) w.bool(16, true)
+  return Buffer.concat([Buffer.from([PROTOBUF_UDP_AUDIO]), w.finish()])
+}
@@ -1,8 +1,8 @@
-import type { ChannelState, ServerConfig, UserState } from './types.js'
-import { MumbleTcpClient, type MumblePermissionDenied, type MumbleReject, type MumbleTextMessage } from './mumble-protocol/client.js'
+import type { BanEntry, ChannelAcl, ChannelState, ClientCertificate, ContextAction, MumbleServerConfig, RegisteredUser, ResolvedUsers, ServerConfig, UserState, UserStats } from './types.js'
+import { MumbleTcpClient, type MumblePermissionDenied, type MumblePluginData, type MumbleReject, type MumbleTextMessage } from './mumble-protocol/client.js'
 import { TcpMessageType } from './mumble-protocol/messages.js'
 import { MumbleUdpVoiceClient } from './mumble-protocol/udp-voice-client.js'
-import { decodeLegacyVoicePacketFromServer, encodeLegacyOpusPacketFromClient, encodeLegacyPingPacket } from './mumble-protocol/voice-legacy.js'
+import { decodeVoicePacketFromServer, encodeOpusPacketFromClient, encodePingPacket } from './mumble-protocol/voice-packet.js'
 import { TypedEmitter } from './mumble-protocol/typed-emitter.js'
 
 export type ConnectedMumble = {
@@ -17,6 +17,7 @@ export type VoiceOpusFrame = {
   sequence: bigint
   isLastFrame: boolean
   opus: Buffer
+  positionalData?: number[]
 }
 
 type SessionEvents = {
@@ -28,6 +29,15 @@ type SessionEvents = {
   serverRtt: number
   reject: MumbleReject
   denied: MumblePermissionDenied
+  acl: ChannelAcl
+  banList: BanEntry[]
+  userList: RegisteredUser[]
+  usersResolved: ResolvedUsers
+  userTexture: { userId: number; texture: Buffer; textureHash?: string }
+  userStats: UserStats
+  contextActions: ContextAction[]
+  serverConfig: MumbleServerConfig
+  pluginData: MumblePluginData
   voiceOpus: VoiceOpusFrame
   error: unknown
   disconnected: undefined
@@ -37,6 +47,8 @@ export class MumbleSession {
   private _tcp: MumbleTcpClient
   private _udp: MumbleUdpVoiceClient | null = null
   private _outSequence = 0n
+  // Our position (x, y, z) attached to every outgoing voice packet; set by the web client.
+  private _positionalData: number[] | null = null
   private _unsubscribers: Array<() => void> = []
   private _udpFallbackTimer: NodeJS.Timeout | null = null
 
@@ -57,6 +69,15 @@ export class MumbleSession {
       tcp.events.on('serverRtt', (ms) => this.events.emit('serverRtt', ms)),
       tcp.events.on('reject', (r) => this.events.emit('reject', r)),
       tcp.events.on('denied', (d) => this.events.emit('denied', d)),
+      tcp.events.on('acl', (acl) => this.events.emit('acl', acl)),
+      tcp.events.on('banList', (bans) => this.events.emit('banList', bans)),
+      tcp.events.on('userList', (users) => this.events.emit('userList', users)),
+      tcp.events.on('usersResolved', (result) => this.events.emit('usersResolved', result)),
+      tcp.events.on('userTexture', (t) => this.events.emit('userTexture', t)),
+      tcp.events.on('userStats', (stats) => this.events.emit('userStats', stats)),
+      tcp.events.on('contextActions', (actions) => this.events.emit('contextActions', actions)),
+      tcp.events.on('serverConfig', (config) => this.events.emit('serverConfig', config)),
+      tcp.events.on('pluginData', (msg) => this.events.emit('pluginData', msg)),
       tcp.events.on('error', (e) => this.events.emit('error', e)),
       tcp.events.on('disconnected', () => this.events.emit('disconnected', undefined)),
       tcp.events.on('udpTunnel', (pkt) => this._onTunnelPacket(pkt))
@@ -76,7 +97,7 @@ export class MumbleSession {
         this._udpFallbackTimer = setTimeout(() => {
           if (!this._udp || this._udp.udpReady) return
           try {
-            const ping = encodeLegacyPingPacket(BigInt(Date.now()))
+            const ping = encodePingPacket(this._tcp.voicePacketFormat, BigInt(Date.now()))
             this._tcp.sendMessage(TcpMessageType.UDPTunnel, ping)
           } catch {}
         }, 2_500)
@@ -104,6 +125,14 @@ export class MumbleSession {
     return this._tcp.serverInfo.maxBandwidth
   }
 
+  get serverConfig(): MumbleServerConfig {
+    return { ...this._tcp.serverConfig }
+  }
+
+  get voicePacketFormat() {
+    return this._tcp.voicePacketFormat
+  }
+
   get channels(): ChannelState[] {
     return [...this._tcp.channels.values()]
   }
@@ -112,6 +141,10 @@ export class MumbleSession {
     return [...this._tcp.users.values()]
   }
 
+  get contextActions(): ContextAction[] {
+    return [...this._tcp.contextActions.values()]
+  }
+
   close(): void {
     this._clearUdpFallbackTimer()
     for (const off of this._unsubscribers) {
@@ -135,16 +168,121 @@ export class MumbleSession {
     this._tcp.joinChannel(channelId)
   }
 
-  sendTextMessage(params: { message: string; channelId?: number; userId?: number }): void {
+  sendTextMessage(params: Parameters<MumbleTcpClient['sendTextMessage']>[0]): void {
     this._tcp.sendTextMessage(params)
   }
 
+  createChannel(params: Parameters<MumbleTcpClient['createChannel']>[0]): void {
+    this._tcp.createChannel(params)
+  }
+
+  updateChannel(params: Parameters<MumbleTcpClient['updateChannel']>[0]): void {
+    this._tcp.updateChannel(params)
+  }
+
+  removeChannel(channelId: number): void {
+    this._tcp.removeChannel(channelId)
+  }
+
+  setSelfMute(mute: boolean): void {
+    this._tcp.setSelfMute(mute)
+  }
+
+  setSelfDeaf(deaf: boolean): void {
+    this._tcp.setSelfDeaf(deaf)
+  }
+
+  setVoiceTarget(id: number, targets: Parameters<MumbleTcpClient['setVoiceTarget']>[1]): void {
+    this._tcp.setVoiceTarget(id, targets)
+  }
+
+  removeUser(params: Parameters<MumbleTcpClient['removeUser']>[0]): void {
+    this._tcp.removeUser(params)
+  }
+
+  registerSelf(): void {
+    this._tcp.registerSelf()
+  }
+
+  queryPermissions(channelId: number): void {
+    this._tcp.queryPermissions(channelId)
+  }
+
+  queryAcl(channelId: number): void {
+    this._tcp.queryAcl(channelId)
+  }
+
+  updateAcl(acl: ChannelAcl): void {
+    this._tcp.updateAcl(acl)
+  }
+
+  banUser(params: Parameters<MumbleTcpClient['banUser']>[0]): Promise<void> {
+    return this._tcp.banUser(params)
+  }
+
+  queryBanList(): void {
+    this._tcp.queryBanList()
+  }
+
+  updateBanList(bans: BanEntry[]): void {
+    this._tcp.updateBanList(bans)
+  }
+
+  requestBlob(params: Parameters<MumbleTcpClient['requestBlob']>[0]): void {
+    this._tcp.requestBlob(params)
+  }
+
+  setSelfComment(comment: string): void {
+    this._tcp.setSelfComment(comment)
+  }
+
+  setSelfTexture(texture: Buffer): void {
+    this._tcp.setSelfTexture(texture)
+  }
+
+  queryUserStats(userId: number, statsOnly?: boolean): void {
+    this._tcp.queryUserStats(userId, statsOnly)
+  }
+
+  sendContextAction(params: Parameters<MumbleTcpClient['sendContextAction']>[0]): void {
+    this._tcp.sendContextAction(params)
+  }
+
+  sendPluginData(params: Parameters<MumbleTcpClient['sendPluginData']>[0]): void {
+    this._tcp.sendPluginData(params)
+  }
+
+  resolveUsers(params: Parameters<MumbleTcpClient['resolveUsers']>[0]): void {
+    this._tcp.resolveUsers(params)
+  }
+
+  queryUserList(): void {
+    this._tcp.queryUserList()
+  }
+
+  updateUserList(params: Parameters<MumbleTcpClient['updateUserList']>[0]): void {
+    this._tcp.updateUserList(params)
+  }
+
+  moderateUser(params: Parameters<MumbleTcpClient['moderateUser']>[0]): void {
+    this._tcp.moderateUser(params)
+  }
+
+  setPluginContext(params: Parameters<MumbleTcpClient['setPluginContext']>[0]): void {
+    this._tcp.setPluginContext(params)
+  }
+
+  setPosition(position: number[] | null): void {
+    this._positionalData = position
+  }
+
   sendOpusFrame(target: number, opus: Buffer): void {
-    const packet = encodeLegacyOpusPacketFromClient({
+    const packet = encodeOpusPacketFromClient(this._tcp.voicePacketFormat, {
       target,
       sequence: this._outSequence++,
       opusData: opus,
-      isLastFrame: false
+      isLastFrame: false,
+      ...(this._positionalData ? { positionalData: this._positionalData } : {})
     })
     if (this._udp?.udpReady) {
       const ok = this._udp.sendPlainPacket(packet)
@@ -154,7 +292,7 @@ export class MumbleSession {
   }
 
   sendOpusEnd(target: number): void {
-    const packet = encodeLegacyOpusPacketFromClient({
+    const packet = encodeOpusPacketFromClient(this._tcp.voicePacketFormat, {
       target,
       sequence: this._outSequence++,
       opusData: Buffer.alloc(0),
@@ -168,7 +306,7 @@ export class MumbleSession {
   }
 
   private _onTunnelPacket(packet: Buffer): void {
-    const decoded = decodeLegacyVoicePacketFromServer(packet)
+    const decoded = decodeVoicePacketFromServer(this._tcp.voicePacketFormat, packet)
     if (!decoded) return
     if (decoded.kind !== 'opus') return
     this._emitVoice({
@@ -176,7 +314,8 @@ export class MumbleSession {
       target: decoded.target,
       sequence: decoded.sequence,
       isLastFrame: decoded.isLastFrame,
-      opus: Buffer.from(decoded.opusData)
+      opus: Buffer.from(decoded.opusData),
+      ...(decoded.positionalData ? { positionalData: decoded.positionalData } : {})
     })
   }
 
@@ -211,8 +350,9 @@ export async function connectMumbleServer(params: {
   username: string
   password?: string
   tokens?: string[]
+  certificate?: ClientCertificate
 }): Promise<ConnectedMumble> {
-  const { server, username, password, tokens } = params
+  const { server, username, password, tokens, certificate } = params
 
   const tcp = await MumbleTcpClient.connect({
     host: server.host,
@@ -220,7 +360,8 @@ export async function connectMumbleServer(params: {
     rejectUnauthorized: server.tls?.rejectUnauthorized ?? true,
     username,
     ...(password != null ? { password } : {}),
-    ...(tokens != null ? { tokens } : {})
+    ...(tokens != null ? { tokens } : {}),
+    ...(certificate != null ? { cert: certificate.cert, key: certificate.key } : {})
   })
 
   await new Promise<void>((resolve, reject) => {
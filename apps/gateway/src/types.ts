@@ -12,11 +12,58 @@ export type ServersFile = {
   servers: ServerConfig[]
 }
 
+// PEM-encoded client identity presented on the Mumble TLS connection (registered users are recognised by it).
+export type ClientCertificate = {
+  cert: string
+  key: string
+}
+
+export type VoiceTargetSpec = {
+  userIds?: number[]
+  channelId?: number
+  group?: string
+  links?: boolean
+  children?: boolean
+}
+
 export type GatewayClientMessage =
-  | { type: 'connect'; serverId: string; username: string; password?: string; tokens?: string[] }
+  | { type: 'connect'; serverId: string; username: string; password?: string; tokens?: string[]; certificate?: ClientCertificate }
   | { type: 'disconnect' }
   | { type: 'joinChannel'; channelId: number }
-  | { type: 'textSend'; message: string; channelId?: number; userId?: number }
+  | { type: 'textSend'; message: string; channelId?: number; userId?: number; treeIds?: number[] }
+  | { type: 'channelCreate'; parentId: number; name: string; description?: string; position?: number; temporary?: boolean }
+  | { type: 'channelUpdate'; channelId: number; name?: string; parentId?: number; description?: string; position?: number }
+  | { type: 'channelRemove'; channelId: number }
+  | { type: 'setSelfMute'; mute: boolean }
+  | { type: 'setSelfDeaf'; deaf: boolean }
+  | { type: 'setVoiceTarget'; id: number; targets: VoiceTargetSpec[] }
+  | { type: 'userKick'; userId: number; reason?: string }
+  | { type: 'userBan'; userId: number; reason?: string; duration?: number }
+  | { type: 'userModerate'; userId: number; mute?: boolean; deaf?: boolean; suppress?: boolean; prioritySpeaker?: boolean }
+  | { type: 'registerSelf' }
+  | { type: 'queryAcl'; channelId: number }
+  // Asks for our permissions in a channel unless they are already known; the answer arrives as a `channelUpsert`.
+  | { type: 'queryPermissions'; channelId: number }
+  | { type: 'updateAcl'; acl: ChannelAcl }
+  | { type: 'banListQuery' }
+  | { type: 'banListUpdate'; bans: BanEntry[] }
+  | { type: 'userListQuery' }
+  | { type: 'userListUpdate'; rename?: Array<{ userId: number; name: string }>; remove?: number[] }
+  // Registered user names for ids and/or ids for names (QueryUsers); answered with `usersResolved`.
+  | { type: 'resolveUsers'; ids?: number[]; names?: string[] }
+  | { type: 'requestBlob'; userTextures?: number[]; userComments?: number[]; channelDescriptions?: number[] }
+  | { type: 'setSelfComment'; comment: string }
+  | { type: 'setSelfTexture'; texture: string }
+  // `statsOnly` skips version, address and certificate details (cheaper for periodic refreshes).
+  | { type: 'userStatsQuery'; userId: number; statsOnly?: boolean }
+  // Triggers a server-registered action; pass the user or channel it was invoked on.
+  | { type: 'contextAction'; action: string; userId?: number; channelId?: number }
+  // PluginDataTransmission to the given sessions; `data` is base64 (at most 1000 bytes once decoded).
+  | { type: 'pluginDataSend'; receiverIds: number[]; dataId: string; data: string }
+  // Positional audio: our position (x, y, z in meters, Mumble's left-handed axes) sent with every voice
+  // packet, null to stop. Only users with the same plugin context receive it.
+  | { type: 'setPosition'; position: [number, number, number] | null }
+  | { type: 'setPluginContext'; context: string; identity?: string }
   | { type: 'ping'; clientTimeMs: number }
 
 export type GatewayServerMessage =
@@ -50,6 +97,19 @@ export type GatewayServerMessage =
   | { type: 'userUpsert'; user: UserState }
   | { type: 'userRemove'; userId: number }
   | { type: 'textRecv'; senderId: number; message: string; targetUsers: number[]; targetChannels: number[]; targetTrees: number[]; timestampMs: number }
+  | { type: 'acl'; acl: ChannelAcl }
+  | { type: 'banList'; bans: BanEntry[] }
+  | { type: 'userList'; users: RegisteredUser[] }
+  | ({ type: 'usersResolved' } & ResolvedUsers)
+  // `texture` is base64 image data (PNG/JPEG); empty when the user removed their avatar.
+  | { type: 'userTexture'; userId: number; texture: string; textureHash?: string }
+  | { type: 'userStats'; stats: UserStats }
+  // Full list of actions currently registered by the server (sent on connect and on every change).
+  | { type: 'contextActions'; actions: ContextAction[] }
+  // Limits and suggestions announced by the server (ServerConfig/SuggestConfig); may arrive after `connected`.
+  | { type: 'serverConfig'; config: MumbleServerConfig }
+  // Plugin data addressed to us (from desktop plugins or other web clients); `data` is base64.
+  | { type: 'pluginDataRecv'; senderId: number; dataId: string; data: string }
 
 export type ChannelState = {
   id: number
@@ -58,15 +118,140 @@ export type ChannelState = {
   position?: number
   description?: string
   links?: number[]
+  // Set for descriptions the server only announced by hash; fetch them with requestBlob.
+  descriptionHash?: string
+  // Effective permission bits of the connected user in this channel (PermissionQuery); absent until known.
+  permissions?: number
 }
 
 export type UserState = {
   id: number
   name: string
   channelId: number | null
+  // Server-side registration id (user_id); absent for unregistered users.
+  registeredId?: number
+  // SHA-1 of the user's client certificate, if they presented one.
+  certHash?: string
+  // Present once known (inline or after requestBlob); `commentHash` means there is a comment to fetch.
+  comment?: string
+  commentHash?: string
+  // The avatar image itself arrives as a separate `userTexture` message; request it with requestBlob.
+  textureHash?: string
   mute?: boolean
   deaf?: boolean
   suppress?: boolean
   selfMute?: boolean
   selfDeaf?: boolean
+  prioritySpeaker?: boolean
+}
+
+// Members and ACL entries refer to registered user ids, not session ids.
+export type AclGroup = {
+  name: string
+  // Defined on a parent channel; `add`/`remove` then only hold this channel's changes.
+  inherited: boolean
+  inherit: boolean
+  inheritable: boolean
+  add: number[]
+  remove: number[]
+  inheritedMembers: number[]
+}
+
+export type AclEntry = {
+  applyHere: boolean
+  applySubs: boolean
+  inherited: boolean
+  userId?: number
+  group?: string
+  grant: number
+  deny: number
+}
+
+// `mask` is the prefix length for the address family of `address` (e.g. 24 for an IPv4 /24).
+export type BanEntry = {
+  address: string
+  mask: number
+  name?: string
+  certHash?: string
+  reason?: string
+  // Start time as sent by the server (ISO 8601, UTC); `duration` is in seconds, 0 meaning permanent.
+  start?: string
+  duration?: number
+}
+
+export type RegisteredUser = {
+  userId: number
+  name: string
+  // ISO 8601 (UTC) as sent by the server
+  lastSeen?: string
+  lastChannelId?: number
+}
+
+// Lookups the server doesn't know are listed separately so clients can stop asking.
+export type ResolvedUsers = {
+  users: Array<{ userId: number; name: string }>
+  unknownIds: number[]
+  unknownNames: string[]
+}
+
+export type PacketStats = {
+  good: number
+  late: number
+  lost: number
+  resync: number
+}
+
+// Network statistics of a user as seen by the server. Pings are in ms, `bandwidth` in bytes/s.
+export type UserStats = {
+  userId: number
+  // Details below the packet counters are omitted from stats-only replies.
+  statsOnly: boolean
+  fromClient?: PacketStats
+  fromServer?: PacketStats
+  udpPackets?: number
+  tcpPackets?: number
+  udpPingAvg?: number
+  udpPingVar?: number
+  tcpPingAvg?: number
+  tcpPingVar?: number
+  bandwidth?: number
+  onlineSecs?: number
+  idleSecs?: number
+  // e.g. "1.5.634"
+  version?: string
+  release?: string
+  os?: string
+  osVersion?: string
+  // Only present when the server lets us see it.
+  address?: string
+  strongCertificate?: boolean
+  opus?: boolean
+}
+
+// Lengths are in characters (`imageMessageLength` applies to messages with embedded images); 0 means unlimited.
+export type MumbleServerConfig = {
+  allowHtml?: boolean
+  messageLength?: number
+  imageMessageLength?: number
+  maxUsers?: number
+  recordingAllowed?: boolean
+  // SuggestConfig: settings the server administrator recommends for clients.
+  suggestPushToTalk?: boolean
+  suggestPositional?: boolean
+  // Minimum client version the server recommends, e.g. "1.5.0"
+  suggestVersion?: string
+}
+
+// Custom menu entry registered by a server plugin or bot; `action` is its id, `text` the label.
+export type ContextAction = {
+  action: string
+  text: string
+  contexts: Array<'server' | 'channel' | 'user'>
+}
+
+export type ChannelAcl = {
+  channelId: number
+  inheritAcls: boolean
+  groups: AclGroup[]
+  acls: AclEntry[]
 }
@@ -4,6 +4,11 @@ export const VOICE_DOWNLINK_OPUS = 0x11
 export const VOICE_UPLINK_OPUS = 0x12
 
 export const DOWNLINK_OPUS_HEADER_BYTES = 11
+// With DOWNLINK_FLAG_POSITION the header is followed by the speaker position as three float32 LE (x, y, z).
+export const DOWNLINK_OPUS_POSITION_BYTES = 12
+
+export const DOWNLINK_FLAG_LAST_FRAME = 0x01
+export const DOWNLINK_FLAG_POSITION = 0x02
 export const UPLINK_OPUS_HEADER_BYTES = 4
 
 export type DecodedUplinkVoice =
@@ -29,22 +34,52 @@ export function decodeUplinkVoiceMessage(buf: Buffer): DecodedUplinkVoice | null
   return null
 }
 
+// Duration of an Opus packet from its TOC byte (RFC 6716, section 3.1); null if it cannot be parsed.
+export function opusPacketDurationMs(packet: Buffer): number | null {
+  if (packet.length < 1) return null
+  const toc = packet.readUInt8(0)
+  const config = toc >> 3
+  let frameMs: number
+  if (config < 12) {
+    frameMs = [10, 20, 40, 60][config & 0x03] ?? 20
+  } else if (config < 16) {
+    frameMs = config & 0x01 ? 20 : 10
+  } else {
+    frameMs = [2.5, 5, 10, 20][config & 0x03] ?? 20
+  }
+
+  const code = toc & 0x03
+  if (code === 0) return frameMs
+  if (code !== 3) return frameMs * 2
+  if (packet.length < 2) return null
+  const frames = packet.readUInt8(1) & 0x3f
+  return frames > 0 ? frameMs * frames : null
+}
+
 export function encodeDownlinkOpus(params: {
   userId: number
   target: number
   sequence: number
   isLastFrame: boolean
   opus: Buffer
+  positionalData?: number[]
 }): Buffer {
-  const { userId, target, sequence, isLastFrame, opus } = params
+  const { userId, target, sequence, isLastFrame, opus, positionalData } = params
   const payloadBytes = opus.byteLength
+  const hasPosition = positionalData != null && positionalData.length >= 3
+  const headerBytes = DOWNLINK_OPUS_HEADER_BYTES + (hasPosition ? DOWNLINK_OPUS_POSITION_BYTES : 0)
 
-  const buf = Buffer.allocUnsafe(DOWNLINK_OPUS_HEADER_BYTES + payloadBytes)
+  const buf = Buffer.allocUnsafe(headerBytes + payloadBytes)
   buf.writeUInt8(VOICE_DOWNLINK_OPUS, 0)
   buf.writeUInt32LE(userId >>> 0, 1)
   buf.writeUInt8(target & 0x1f, 5)
-  buf.writeUInt8(isLastFrame ? 0x01 : 0x00, 6)
+  buf.writeUInt8((isLastFrame ? DOWNLINK_FLAG_LAST_FRAME : 0) | (hasPosition ? DOWNLINK_FLAG_POSITION : 0), 6)
   buf.writeUInt32LE(sequence >>> 0, 7)
-  opus.copy(buf, DOWNLINK_OPUS_HEADER_BYTES)
+  if (hasPosition) {
+    buf.writeFloatLE(positionalData[0] ?? 0, DOWNLINK_OPUS_HEADER_BYTES)
+    buf.writeFloatLE(positionalData[1] ?? 0, DOWNLINK_OPUS_HEADER_BYTES + 4)
+    buf.writeFloatLE(positionalData[2] ?? 0, DOWNLINK_OPUS_HEADER_BYTES + 8)
+  }
+  opus.copy(buf, headerBytes)
   return buf
 }
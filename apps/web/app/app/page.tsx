@@ -1,18 +1,43 @@
 'use client'
 
-import { useEffect, useMemo, useRef, useState } from 'react'
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react'
 import Link from 'next/link'
 import { Button } from '../../components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from '../../components/ui/card'
 import { Input } from '../../components/ui/input'
-import { useGatewayStore } from '../../src/state/gateway-store'
+import { Textarea } from '../../components/ui/textarea'
+import {
+  useGatewayStore,
+  channelThreadKey,
+  currentThreadKey,
+  findThreadPeer,
+  parseThreadKey,
+  type ChatSearchResult,
+  type Vec3
+} from '../../src/state/gateway-store'
 import { cn } from '../../src/ui/cn'
 import { VoiceEngine } from '../../src/audio/voice-engine'
-import { canUseWebCodecsOpus, createWebCodecsOpusDecoder, createWebCodecsOpusEncoder } from '../../src/audio/webcodecs-opus'
+import { canUseOpus, createOpusDecoder, createOpusEncoder } from '../../src/audio/opus-codec'
 import { Rnnoise, type DenoiseState } from '@shiguredo/rnnoise-wasm'
-import { Mic, MicOff, Video, Settings, LogOut, MessageSquare, Users, Hash, Volume2, VolumeX, Activity, Send, BarChart3 } from 'lucide-react'
+import { Mic, MicOff, Video, Settings, LogOut, MessageSquare, Users, Hash, Volume2, VolumeX, Activity, Send, BarChart3, FolderPlus, Pencil, Trash2, MoreVertical, UserX, Ban, MicVocal, HeadphoneOff, Headphones, Megaphone, Radio, BadgeCheck, UserCheck, ShieldCheck, LogIn, Lock, Gavel, UserCog, IdCard, Puzzle, Search, Loader2, AtSign, ListTree, ImagePlus, Pilcrow } from 'lucide-react'
 import { MetricsPanel } from '../../components/ui/metrics-panel'
 import { SettingsDialog } from '../../components/ui/settings-dialog'
+import { ChannelDialog, type ChannelDialogMode } from '../../components/ui/channel-dialog'
+import { ContextMenu, type ContextMenuItem } from '../../components/ui/context-menu'
+import { VoiceTargetsDialog } from '../../components/ui/voice-targets-dialog'
+import { AclDialog } from '../../components/ui/acl-dialog'
+import { BanListDialog } from '../../components/ui/ban-list-dialog'
+import { RegisteredUsersDialog } from '../../components/ui/registered-users-dialog'
+import { ProfileDialog } from '../../components/ui/profile-dialog'
+import { UserAvatar } from '../../components/ui/user-avatar'
+import { UserProfilePopover } from '../../components/ui/user-profile-popover'
+import { UserStatsPopover } from '../../components/ui/user-stats-popover'
+import { RichText } from '../../components/ui/rich-text'
+import { escapeHtml, htmlToText, sanitizeHtml } from '../../src/ui/sanitize-html'
+import { encodeInlineImage } from '../../src/ui/inline-image'
+import { markdownToHtml } from '../../src/ui/markdown'
+import { Permission, hasPermission } from '../../src/mumble/permissions'
+import { textMessageLimit } from '../../src/mumble/text-limits'
 
 export default function AppPage() {
   const {
@@ -27,7 +52,34 @@ export default function AppPage() {
     selectChannel,
     joinSelectedChannel,
     sendTextToSelectedChannel,
-    chat,
+    sendTextToUser,
+    openPrivateThread,
+    updateChannel,
+    removeChannel,
+    kickUser,
+    banUser,
+    moderateUser,
+    registerSelf,
+    queryPermissions,
+    avatarsByUserId,
+    requestChannelDescription,
+    contextActions,
+    triggerContextAction,
+    serverConfig,
+    selfMuted,
+    selfDeafened,
+    setSelfMute,
+    setSelfDeaf,
+    voiceTargets,
+    selectedVoiceTargetId,
+    activeVoiceTargetId,
+    selectVoiceTarget,
+    setActiveVoiceTarget,
+    chatThreads,
+    activeThreadKey,
+    openThread,
+    loadOlderMessages,
+    searchChatHistory,
     metrics,
     disconnect,
     init,
@@ -40,21 +92,58 @@ export default function AppPage() {
     vadThreshold,
     vadHoldTimeMs,
     opusBitrate,
+    opusChannels,
+    opusFrameMs,
+    opusBackend,
     micEchoCancellation,
     micNoiseSuppression,
     micAutoGainControl,
     rnnoiseEnabled,
+    spatialAudioEnabled,
+    selfPosition,
     setVoiceMode,
     selectedInputDeviceId
   } = useGatewayStore()
 
-  const webCodecsAvailable = canUseWebCodecsOpus()
+  const opusAvailable = canUseOpus(opusBackend)
 
   const [message, setMessage] = useState('')
-  const [muted, setMuted] = useState(false)
+  const [sendToSubchannels, setSendToSubchannels] = useState(false)
+  const [composeMarkdown, setComposeMarkdown] = useState(true)
+  const [encodingImage, setEncodingImage] = useState(false)
+  const imageInputRef = useRef<HTMLInputElement>(null)
   const [micEnabled, setMicEnabled] = useState(false)
   const [showMetricsPanel, setShowMetricsPanel] = useState(false)
   const [showSettings, setShowSettings] = useState(false)
+  const [showVoiceTargets, setShowVoiceTargets] = useState(false)
+  const [channelDialog, setChannelDialog] = useState<ChannelDialogMode | null>(null)
+  const [dragChannelId, setDragChannelId] = useState<number | null>(null)
+  const [dropChannelId, setDropChannelId] = useState<number | null>(null)
+  const [userMenu, setUserMenu] = useState<{ userId: number; x: number; y: number } | null>(null)
+  const closeUserMenu = useCallback(() => setUserMenu(null), [])
+  const [channelMenu, setChannelMenu] = useState<{ channelId: number; x: number; y: number } | null>(null)
+  const closeChannelMenu = useCallback(() => setChannelMenu(null), [])
+  const [aclChannelId, setAclChannelId] = useState<number | null>(null)
+  const [showBanList, setShowBanList] = useState(false)
+  const [showRegisteredUsers, setShowRegisteredUsers] = useState(false)
+  const [profileTarget, setProfileTarget] = useState<{ userId: number; x: number; y: number } | null>(null)
+  const closeProfile = useCallback(() => setProfileTarget(null), [])
+  const [showProfileEditor, setShowProfileEditor] = useState(false)
+  const [statsTarget, setStatsTarget] = useState<{ userId: number; x: number; y: number } | null>(null)
+  const closeStats = useCallback(() => setStatsTarget(null), [])
+
+  // Gate actions on the effective permissions the gateway reports per channel.
+  const can = useCallback(
+    (channelId: number | null | undefined, permission: number) => channelId != null && hasPermission(channelsById[channelId]?.permissions, permission),
+    [channelsById]
+  )
+  // Ask for the permissions of channels whose actions are about to be shown (kick/ban are root permissions).
+  const userMenuChannelId = userMenu ? usersById[userMenu.userId]?.channelId : null
+  useEffect(() => {
+    for (const id of [selectedChannelId, channelMenu?.channelId, userMenuChannelId, userMenu ? rootChannelId : null]) {
+      if (id != null) queryPermissions(id)
+    }
+  }, [selectedChannelId, channelMenu, userMenu, userMenuChannelId, rootChannelId, queryPermissions])
   const [playbackStats, setPlaybackStats] = useState<{ totalQueuedMs: number; maxQueuedMs: number; streams: number } | null>(null)
   const [captureStats, setCaptureStats] = useState<{ rms: number; sending: boolean } | null>(null)
   const voiceRef = useRef<VoiceEngine | null>(null)
@@ -99,19 +188,23 @@ export default function AppPage() {
   }, [rnnoiseEnabled])
 
   useEffect(() => {
-    const decoders = new Map<number, ReturnType<typeof createWebCodecsOpusDecoder>>()
+    const decoders = new Map<number, ReturnType<typeof createOpusDecoder>>()
+    // Latest position per speaker; decoded PCM arrives asynchronously and picks it up from here.
+    const positions = new Map<number, Vec3>()
 
-    let encoder: ReturnType<typeof createWebCodecsOpusEncoder> | null = null
-    if (canUseWebCodecsOpus()) {
+    let encoder: ReturnType<typeof createOpusEncoder> | null = null
+    if (canUseOpus(opusBackend)) {
       try {
-        encoder = createWebCodecsOpusEncoder({
+        encoder = createOpusEncoder({
+          backend: opusBackend,
           sampleRate: 48000,
-          channels: 1,
+          channels: opusChannels,
           bitrate: opusBitrate,
-          onOpus: (opus) => sendMicOpus(opus, { target: 0 })
+          frameDurationMs: opusFrameMs,
+          onOpus: (opus) => sendMicOpus(opus)
         })
       } catch (e) {
-        console.warn(`[voice] failed to init WebCodecs Opus encoder: ${String(e)}`)
+        console.warn(`[voice] failed to init Opus encoder: ${String(e)}`)
       }
     }
 
@@ -119,7 +212,8 @@ export default function AppPage() {
       onMicPcm: (pcm, sampleRate) => {
         if (sampleRate !== 48000) return
 
-        const rn = rnnoiseRef.current
+        // RNNoise works on mono frames; stereo uplink skips it.
+        const rn = opusChannels === 1 ? rnnoiseRef.current : null
         if (rn) {
           try {
             const scale = 32768
@@ -169,21 +263,32 @@ export default function AppPage() {
     engine.setMode(voiceMode)
     engine.setVadThreshold(vadThreshold)
     engine.setVadHoldTime(vadHoldTimeMs)
+    engine.setChannels(opusChannels)
+    engine.setFrameDuration(opusFrameMs)
+    const { spatialAudioEnabled: spatial, selfPosition: listener } = useGatewayStore.getState()
+    engine.setSpatialAudio(spatial)
+    engine.setListener(listener?.position ?? null, listener?.front, listener?.top)
 
     setVoiceSink((frame) => {
-      if (!canUseWebCodecsOpus()) return
+      if (!canUseOpus(opusBackend)) return
+      if (frame.position) positions.set(frame.userId, frame.position)
+      else positions.delete(frame.userId)
       if (!frame.opus.byteLength) return
 
       let dec = decoders.get(frame.userId)
       if (!dec) {
         try {
-          dec = createWebCodecsOpusDecoder({
+          dec = createOpusDecoder({
+            backend: opusBackend,
             sampleRate: 48000,
             channels: 1,
-            onPcm: (pcm) => engine.pushRemotePcm({ userId: frame.userId, channels: 1, sampleRate: 48000, pcm })
+            onPcm: (pcm) => {
+              const position = positions.get(frame.userId)
+              engine.pushRemotePcm({ userId: frame.userId, channels: 1, sampleRate: 48000, pcm, ...(position ? { position } : {}) })
+            }
           })
         } catch (e) {
-          console.warn(`[voice] failed to init WebCodecs Opus decoder: ${String(e)}`)
+          console.warn(`[voice] failed to init Opus decoder: ${String(e)}`)
           return
         }
         decoders.set(frame.userId, dec)
@@ -195,10 +300,12 @@ export default function AppPage() {
     return () => {
       setVoiceSink(null)
       engine.disableMic()
+      // The replacement engine starts without a microphone; reflect that instead of showing a live mic.
+      setMicEnabled(false)
       encoder?.close()
       for (const dec of decoders.values()) dec.close()
     }
-  }, [sendMicEnd, sendMicOpus, setVoiceSink, opusBitrate])
+  }, [sendMicEnd, sendMicOpus, setVoiceSink, opusBitrate, opusChannels, opusFrameMs, opusBackend])
 
   useEffect(() => {
     if (status === 'connected') {
@@ -209,6 +316,54 @@ export default function AppPage() {
     }
   }, [status])
 
+  useEffect(() => {
+    voiceRef.current?.setMuted(selfDeafened)
+  }, [selfDeafened])
+
+  // Report the mic state to the server so other users see us as (un)muted.
+  useEffect(() => {
+    if (status !== 'connected') return
+    if (micEnabled === !useGatewayStore.getState().selfMuted) return
+    setSelfMute(!micEnabled)
+  }, [status, micEnabled, setSelfMute])
+
+  // Whisper/shout push-to-talk keys.
+  useEffect(() => {
+    if (!micEnabled) return
+    const isTyping = (e: KeyboardEvent) => {
+      const el = e.target
+      return el instanceof HTMLElement && (el.isContentEditable || el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT')
+    }
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || isTyping(e)) return
+      const target = voiceTargets.find((t) => t.key === e.code)
+      if (!target) return
+      e.preventDefault()
+      setActiveVoiceTarget(target.id)
+      voiceRef.current?.setPttActive(true)
+    }
+    const onKeyUp = (e: KeyboardEvent) => {
+      const target = voiceTargets.find((t) => t.key === e.code)
+      if (!target || useGatewayStore.getState().activeVoiceTargetId !== target.id) return
+      voiceRef.current?.setPttActive(false)
+      setActiveVoiceTarget(null)
+    }
+    const onBlur = () => {
+      if (useGatewayStore.getState().activeVoiceTargetId == null) return
+      voiceRef.current?.setPttActive(false)
+      setActiveVoiceTarget(null)
+    }
+    window.addEventListener('keydown', onKeyDown)
+    window.addEventListener('keyup', onKeyUp)
+    window.addEventListener('blur', onBlur)
+    return () => {
+      window.removeEventListener('keydown', onKeyDown)
+      window.removeEventListener('keyup', onKeyUp)
+      window.removeEventListener('blur', onBlur)
+      onBlur()
+    }
+  }, [micEnabled, voiceTargets, setActiveVoiceTarget])
+
   // Update voice engine when settings change
   useEffect(() => {
     voiceRef.current?.setMode(voiceMode)
@@ -222,6 +377,14 @@ export default function AppPage() {
     voiceRef.current?.setVadHoldTime(vadHoldTimeMs)
   }, [vadHoldTimeMs])
 
+  useEffect(() => {
+    voiceRef.current?.setSpatialAudio(spatialAudioEnabled)
+  }, [spatialAudioEnabled])
+
+  useEffect(() => {
+    voiceRef.current?.setListener(selfPosition?.position ?? null, selfPosition?.front, selfPosition?.top)
+  }, [selfPosition])
+
   useEffect(() => {
     if (!micEnabled) return
     const options: Parameters<VoiceEngine['switchDevice']>[0] = {
@@ -249,7 +412,15 @@ export default function AppPage() {
       arr.push(ch.id)
       byParent.set(key, arr)
     }
-    for (const [, ids] of byParent) ids.sort((a, b) => (channelsById[a]?.name ?? '').localeCompare(channelsById[b]?.name ?? ''))
+    // Same ordering as the desktop client: position first, then name.
+    for (const [, ids] of byParent) {
+      ids.sort((a, b) => {
+        const pa = channelsById[a]?.position ?? 0
+        const pb = channelsById[b]?.position ?? 0
+        if (pa !== pb) return pa - pb
+        return (channelsById[a]?.name ?? '').localeCompare(channelsById[b]?.name ?? '')
+      })
+    }
 
     const build = (parentId: number | null, depth: number): Array<{ id: number; depth: number }> => {
       const ids = byParent.get(parentId) ?? []
@@ -264,6 +435,24 @@ export default function AppPage() {
     return build(null, 0)
   }, [channelsById, rootChannelId])
 
+  // Channels that `dragChannelId` can't be dropped onto (itself and its subtree).
+  const dragSubtree = useMemo(() => {
+    const out = new Set<number>()
+    if (dragChannelId == null) return out
+    out.add(dragChannelId)
+    let changed = true
+    while (changed) {
+      changed = false
+      for (const ch of Object.values(channelsById)) {
+        if (ch.parentId != null && out.has(ch.parentId) && !out.has(ch.id)) {
+          out.add(ch.id)
+          changed = true
+        }
+      }
+    }
+    return out
+  }, [channelsById, dragChannelId])
+
   const usersInSelectedChannel = useMemo(() => {
     if (selectedChannelId == null) return []
     return Object.values(usersById)
@@ -271,11 +460,258 @@ export default function AppPage() {
       .sort((a, b) => a.name.localeCompare(b.name))
   }, [usersById, selectedChannelId])
 
+  // Entries registered by server plugins/bots for the given context.
+  const serverActionItems = useCallback(
+    (context: 'server' | 'channel' | 'user', target: { userId?: number; channelId?: number }): ContextMenuItem[] =>
+      contextActions
+        .filter((a) => a.contexts.includes(context))
+        .map((a) => ({ label: a.text, icon: <Puzzle />, onSelect: () => triggerContextAction(a.action, target) })),
+    [contextActions, triggerContextAction]
+  )
+
+  const userMenuItems = useMemo((): ContextMenuItem[] => {
+    const u = userMenu != null ? usersById[userMenu.userId] : undefined
+    if (!u) return []
+    const isSelf = u.id === selfUserId
+    const items: ContextMenuItem[] = [
+      { heading: u.name || `#${u.id}` },
+      { label: 'View profile', icon: <IdCard />, onSelect: () => setProfileTarget({ userId: u.id, x: userMenu?.x ?? 0, y: userMenu?.y ?? 0 }) },
+      { label: 'Statistics', icon: <Activity />, onSelect: () => setStatsTarget({ userId: u.id, x: userMenu?.x ?? 0, y: userMenu?.y ?? 0 }) }
+    ]
+    if (isSelf) items.push({ label: 'Edit profile…', icon: <Pencil />, onSelect: () => setShowProfileEditor(true) })
+    else items.push({ label: 'Send message', icon: <MessageSquare />, onSelect: () => openPrivateThread(u.id) })
+
+    if (isSelf && u.registeredId == null && (can(rootChannelId, Permission.SelfRegister) || can(rootChannelId, Permission.Register))) {
+      items.push({
+        label: 'Register…',
+        icon: <UserCheck />,
+        onSelect: () => {
+          if (!window.confirm(`Register "${u.name}" on this server? Your current certificate will be tied to this name.`)) return
+          registerSelf()
+        }
+      })
+    }
+
+    if (can(u.channelId, Permission.MuteDeafen)) {
+      if (items.length > 1) items.push({ separator: true })
+      items.push(
+        {
+          label: u.mute ? 'Server unmute' : 'Server mute',
+          icon: u.mute ? <Mic /> : <MicOff />,
+          onSelect: () => moderateUser(u.id, { mute: !u.mute })
+        },
+        {
+          label: u.deaf ? 'Server undeafen' : 'Server deafen',
+          icon: u.deaf ? <Headphones /> : <HeadphoneOff />,
+          onSelect: () => moderateUser(u.id, { deaf: !u.deaf })
+        },
+        {
+          label: u.prioritySpeaker ? 'Remove priority speaker' : 'Priority speaker',
+          icon: <Megaphone />,
+          onSelect: () => moderateUser(u.id, { prioritySpeaker: !u.prioritySpeaker })
+        }
+      )
+      if (u.suppress) {
+        items.push({ label: 'Unsuppress', icon: <MicVocal />, onSelect: () => moderateUser(u.id, { suppress: false }) })
+      }
+    }
+
+    // Kick and ban are only granted on the root channel.
+    const canKick = !isSelf && can(rootChannelId, Permission.Kick)
+    const canBan = !isSelf && can(rootChannelId, Permission.Ban)
+    if ((canKick || canBan) && items.length > 1) items.push({ separator: true })
+    if (canKick) {
+      items.push({
+        label: 'Kick…',
+        icon: <UserX />,
+        destructive: true,
+        onSelect: () => {
+          const reason = window.prompt(`Kick ${u.name}? Reason (optional):`)
+          if (reason == null) return
+          kickUser(u.id, reason)
+        }
+      })
+    }
+    if (canBan) {
+      items.push({
+        label: 'Ban…',
+        icon: <Ban />,
+        destructive: true,
+        onSelect: () => {
+          const reason = window.prompt(`Ban ${u.name}? Reason (optional):`)
+          if (reason == null) return
+          const hours = window.prompt('Ban duration in hours (empty for permanent):', '')
+          if (hours == null) return
+          const durationHours = Number(hours.trim() || 0)
+          if (!Number.isFinite(durationHours) || durationHours < 0) {
+            window.alert('Invalid duration')
+            return
+          }
+          banUser(u.id, reason, Math.round(durationHours * 3600))
+        }
+      })
+    }
+
+    const pluginItems = serverActionItems('user', { userId: u.id })
+    if (pluginItems.length) items.push({ separator: true }, ...pluginItems)
+
+    return items
+  }, [userMenu, usersById, selfUserId, rootChannelId, can, moderateUser, kickUser, banUser, registerSelf, serverActionItems, openPrivateThread])
+
+  const channelMenuItems = useMemo((): ContextMenuItem[] => {
+    const ch = channelMenu != null ? channelsById[channelMenu.channelId] : undefined
+    if (!ch) return []
+    const isRoot = ch.id === rootChannelId
+    const canWrite = can(ch.id, Permission.Write)
+    // Server-wide actions are offered on the root channel.
+    const pluginItems = [...serverActionItems('channel', { channelId: ch.id }), ...(isRoot ? serverActionItems('server', {}) : [])]
+    return [
+      { heading: ch.name || (isRoot ? 'Root' : `#${ch.id}`) },
+      {
+        label: 'Join',
+        icon: <LogIn />,
+        disabled: !can(ch.id, Permission.Enter),
+        onSelect: () => {
+          selectChannel(ch.id)
+          joinSelectedChannel()
+        }
+      },
+      {
+        label: 'Create subchannel…',
+        icon: <FolderPlus />,
+        disabled: !can(ch.id, Permission.MakeChannel) && !can(ch.id, Permission.MakeTempChannel),
+        onSelect: () => setChannelDialog({ kind: 'create', parentId: ch.id })
+      },
+      { label: 'Edit…', icon: <Pencil />, disabled: !canWrite, onSelect: () => setChannelDialog({ kind: 'edit', channelId: ch.id }) },
+      { label: 'Edit ACL…', icon: <ShieldCheck />, disabled: !canWrite, onSelect: () => setAclChannelId(ch.id) },
+      ...(pluginItems.length ? [{ separator: true } as const, ...pluginItems] : []),
+      { separator: true },
+      {
+        label: 'Delete',
+        icon: <Trash2 />,
+        destructive: true,
+        disabled: isRoot || !canWrite,
+        onSelect: () => {
+          if (!window.confirm(`Delete channel "${ch.name || ch.id}" and all of its subchannels?`)) return
+          removeChannel(ch.id)
+        }
+      }
+    ]
+  }, [channelMenu, channelsById, rootChannelId, can, selectChannel, joinSelectedChannel, removeChannel, serverActionItems])
+
+  // Long channel descriptions are fetched when the channel is first looked at.
+  const selectedDescription = selectedChannelId != null ? channelsById[selectedChannelId]?.description : undefined
+  const selectedDescriptionHtml = useMemo(() => (selectedDescription ? sanitizeHtml(selectedDescription) : ''), [selectedDescription])
+  useEffect(() => {
+    if (selectedChannelId != null) requestChannelDescription(selectedChannelId)
+  }, [selectedChannelId, channelsById, requestChannelDescription])
+
+  const threadKey = currentThreadKey({ activeThreadKey, selectedChannelId })
+  const thread = threadKey ? chatThreads[threadKey] : undefined
+  const threadInfo = threadKey ? parseThreadKey(threadKey) : null
+  const isPrivateThread = threadInfo?.kind === 'user'
+  const chatMessages = useMemo(() => thread?.messages ?? [], [thread])
+
+  // Private threads are keyed by account; the peer's current name (or the last one seen) is what gets shown.
+  const peerName = useCallback(
+    (key: string) => {
+      const info = parseThreadKey(key)
+      const keyName = info?.kind === 'user' ? info.name : undefined
+      return findThreadPeer(key, usersById)?.name ?? chatThreads[key]?.peerName ?? keyName ?? 'unknown'
+    },
+    [usersById, chatThreads]
+  )
+
+  const privateThreads = useMemo(
+    () =>
+      Object.entries(chatThreads)
+        .filter(([key]) => parseThreadKey(key)?.kind === 'user')
+        .map(([key, t]) => ({ key, name: peerName(key), unread: t.unread }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [chatThreads, peerName]
+  )
+
+  const threadLabel = useCallback(
+    (key: string) => {
+      const info = parseThreadKey(key)
+      if (!info) return key
+      if (info.kind === 'user') return `@${peerName(key)}`
+      return channelsById[info.channelId]?.name || (info.channelId === rootChannelId ? 'Root' : `#${info.channelId}`)
+    },
+    [channelsById, rootChannelId, peerName]
+  )
+
   // Scroll chat to bottom on new message
   const chatEndRef = useRef<HTMLDivElement>(null)
+  const lastMessageId = chatMessages[chatMessages.length - 1]?.id
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [chat])
+  }, [lastMessageId, threadKey])
+
+  // Older pages are prepended when scrolled to the top; keep the visible messages where they were.
+  const chatScrollRef = useRef<HTMLDivElement>(null)
+  const prependAnchorRef = useRef<{ key: string; height: number } | null>(null)
+  const firstMessageId = chatMessages[0]?.id
+  useLayoutEffect(() => {
+    const el = chatScrollRef.current
+    const anchor = prependAnchorRef.current
+    if (!el || !anchor) return
+    prependAnchorRef.current = null
+    if (anchor.key === threadKey) el.scrollTop += el.scrollHeight - anchor.height
+  }, [firstMessageId, threadKey])
+
+  const [chatSearch, setChatSearch] = useState('')
+  const [searchResults, setSearchResults] = useState<ChatSearchResult[] | null>(null)
+  useEffect(() => {
+    const query = chatSearch.trim()
+    if (!query) {
+      setSearchResults(null)
+      return
+    }
+    let cancelled = false
+    const id = window.setTimeout(() => {
+      searchChatHistory(query)
+        .then((results) => {
+          if (!cancelled) setSearchResults(results)
+        })
+        .catch(() => {
+          if (!cancelled) setSearchResults([])
+        })
+    }, 250)
+    return () => {
+      cancelled = true
+      window.clearTimeout(id)
+    }
+  }, [chatSearch, searchChatHistory])
+
+  // The peer can only be written to while connected.
+  const privatePeer = useMemo(() => (isPrivateThread && threadKey ? findThreadPeer(threadKey, usersById) : undefined), [isPrivateThread, threadKey, usersById])
+  const canSendText = isPrivateThread ? privatePeer != null : can(selectedChannelId, Permission.TextMessage)
+  // Limits apply to the HTML that is actually sent, not to what was typed.
+  const plainHtml = escapeHtml(message)
+  const outgoingHtml = useMemo(() => (composeMarkdown ? markdownToHtml(message) : plainHtml), [composeMarkdown, message, plainHtml])
+  const showPreview = composeMarkdown && message.trim() !== '' && outgoingHtml !== plainHtml
+  const messageLimit = textMessageLimit(serverConfig, outgoingHtml)
+  const messageTooLong = messageLimit != null && outgoingHtml.length > messageLimit
+
+  const sendChatHtml = (html: string) => {
+    if (isPrivateThread) {
+      if (privatePeer) sendTextToUser(privatePeer.id, html)
+    } else {
+      sendTextToSelectedChannel(html, { subchannels: sendToSubchannels })
+    }
+  }
+
+  const sendImage = async (file: Blob) => {
+    setEncodingImage(true)
+    try {
+      sendChatHtml(await encodeInlineImage(file, serverConfig?.imageMessageLength || null))
+    } catch (err) {
+      window.alert(err instanceof Error ? err.message : 'Failed to attach image')
+    } finally {
+      setEncodingImage(false)
+    }
+  }
 
   if (status !== 'connected') {
     return (
@@ -321,6 +757,11 @@ export default function AppPage() {
           >
             <span className="flex items-center gap-1"><Activity className="h-3 w-3" /> {metrics.wsRttMs != null ? Math.round(metrics.wsRttMs) : '-'}ms</span>
             <span className="hidden sm:inline">Server: {metrics.serverRttMs != null ? Math.round(metrics.serverRttMs) : '-'}ms</span>
+            {serverConfig?.maxUsers ? (
+              <span className="hidden md:flex items-center gap-1" title="Users on the server / maximum">
+                <Users className="h-3 w-3" /> {Object.keys(usersById).length}/{serverConfig.maxUsers}
+              </span>
+            ) : null}
           </p>
         </div>
         <div className="flex items-center gap-2">
@@ -333,6 +774,16 @@ export default function AppPage() {
           >
             <BarChart3 className="h-4 w-4" />
           </Button>
+          {can(rootChannelId, Permission.Register) && (
+            <Button variant="ghost" size="icon" title="Registered users" onClick={() => setShowRegisteredUsers(true)} className="text-muted-foreground hover:text-foreground">
+              <UserCog className="h-4 w-4" />
+            </Button>
+          )}
+          {can(rootChannelId, Permission.Ban) && (
+            <Button variant="ghost" size="icon" title="Ban list" onClick={() => setShowBanList(true)} className="text-muted-foreground hover:text-foreground">
+              <Gavel className="h-4 w-4" />
+            </Button>
+          )}
           <Button variant="ghost" size="icon" title="Settings" onClick={() => setShowSettings(true)} className="text-muted-foreground hover:text-foreground">
             <Settings className="h-4 w-4" />
           </Button>
@@ -351,7 +802,14 @@ export default function AppPage() {
           </div>
           <div className="flex-1 overflow-y-auto p-2">
             <div className="space-y-0.5">
-              <div className="px-2 py-1.5 text-xs font-semibold text-primary/80 truncate">
+              <div
+                className="px-2 py-1.5 text-xs font-semibold text-primary/80 truncate"
+                onContextMenu={(e) => {
+                  if (rootChannelId == null) return
+                  e.preventDefault()
+                  setChannelMenu({ channelId: rootChannelId, x: e.clientX, y: e.clientY })
+                }}
+              >
                 {root?.name || 'Root'}
               </div>
               {channelTree.map(({ id, depth }) => {
@@ -359,33 +817,136 @@ export default function AppPage() {
                 if (!ch) return null
                 const selected = id === selectedChannelId
                 const hasUsers = Object.values(usersById).some(u => u.channelId === id)
+                const canEnter = can(id, Permission.Enter)
 
                 return (
                   <button
                     key={id}
                     className={cn(
                       'flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm transition-colors',
-                      selected ? 'bg-primary/10 text-primary font-medium' : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+                      selected ? 'bg-primary/10 text-primary font-medium' : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground',
+                      dropChannelId === id && 'ring-1 ring-primary'
                     )}
                     style={{ paddingLeft: 8 + depth * 12 }}
                     onClick={() => selectChannel(id)}
+                    onDoubleClick={() => {
+                      if (can(id, Permission.Write)) setChannelDialog({ kind: 'edit', channelId: id })
+                    }}
+                    onContextMenu={(e) => {
+                      e.preventDefault()
+                      selectChannel(id)
+                      setChannelMenu({ channelId: id, x: e.clientX, y: e.clientY })
+                    }}
+                    draggable={ch.parentId != null && can(id, Permission.Write)}
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move'
+                      setDragChannelId(id)
+                    }}
+                    onDragEnd={() => {
+                      setDragChannelId(null)
+                      setDropChannelId(null)
+                    }}
+                    onDragOver={(e) => {
+                      if (dragChannelId == null || dragSubtree.has(id) || !can(id, Permission.MakeChannel)) return
+                      e.preventDefault()
+                      setDropChannelId(id)
+                    }}
+                    onDragLeave={() => setDropChannelId((cur) => (cur === id ? null : cur))}
+                    onDrop={(e) => {
+                      e.preventDefault()
+                      const moving = dragChannelId
+                      setDragChannelId(null)
+                      setDropChannelId(null)
+                      if (moving == null || dragSubtree.has(id)) return
+                      if (channelsById[moving]?.parentId === id) return
+                      updateChannel({ channelId: moving, parentId: id })
+                    }}
                   >
                     <Volume2 className={cn("h-3.5 w-3.5 shrink-0", hasUsers ? "opacity-100" : "opacity-50")} />
-                    <span className="truncate">{ch.name || '(unnamed)'}</span>
+                    <span className={cn("truncate", !canEnter && "opacity-60")}>{ch.name || '(unnamed)'}</span>
+                    {!canEnter && <Lock className="ml-auto h-3 w-3 shrink-0 opacity-60" aria-label="No permission to enter" />}
+                    {!!chatThreads[channelThreadKey(id)]?.unread && (
+                      <span className={cn("rounded-full bg-primary px-1.5 text-[10px] font-semibold text-primary-foreground", canEnter && "ml-auto")}>
+                        {chatThreads[channelThreadKey(id)]?.unread}
+                      </span>
+                    )}
                   </button>
                 )
               })}
             </div>
+
+            {privateThreads.length > 0 && (
+              <div className="mt-4 space-y-0.5">
+                <div className="px-2 py-1.5 text-xs font-medium uppercase tracking-wider text-muted-foreground">Private messages</div>
+                {privateThreads.map(({ key, name, unread }) => (
+                  <button
+                    key={key}
+                    className={cn(
+                      'flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm transition-colors',
+                      key === threadKey ? 'bg-primary/10 text-primary font-medium' : 'text-muted-foreground hover:bg-accent hover:text-accent-foreground'
+                    )}
+                    onClick={() => openThread(key)}
+                  >
+                    <AtSign className="h-3.5 w-3.5 shrink-0" />
+                    <span className="truncate">{name}</span>
+                    {unread > 0 && (
+                      <span className="ml-auto rounded-full bg-primary px-1.5 text-[10px] font-semibold text-primary-foreground">{unread}</span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
-          <div className="border-t border-border p-3">
+          <div className="flex gap-1 border-t border-border p-3">
             <Button
-              className="w-full"
+              className="flex-1"
               size="sm"
-              disabled={selectedChannelId == null}
+              disabled={!can(selectedChannelId, Permission.Enter)}
               onClick={() => joinSelectedChannel()}
             >
               Join Channel
             </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-muted-foreground hover:text-foreground"
+              title="Create subchannel"
+              disabled={!can(selectedChannelId, Permission.MakeChannel) && !can(selectedChannelId, Permission.MakeTempChannel)}
+              onClick={() => {
+                if (selectedChannelId == null) return
+                setChannelDialog({ kind: 'create', parentId: selectedChannelId })
+              }}
+            >
+              <FolderPlus className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-muted-foreground hover:text-foreground"
+              title="Edit channel"
+              disabled={!can(selectedChannelId, Permission.Write)}
+              onClick={() => {
+                if (selectedChannelId == null) return
+                setChannelDialog({ kind: 'edit', channelId: selectedChannelId })
+              }}
+            >
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-muted-foreground hover:text-destructive"
+              title="Delete channel"
+              disabled={selectedChannelId === rootChannelId || !can(selectedChannelId, Permission.Write)}
+              onClick={() => {
+                if (selectedChannelId == null) return
+                const ch = channelsById[selectedChannelId]
+                if (!window.confirm(`Delete channel "${ch?.name ?? selectedChannelId}" and all of its subchannels?`)) return
+                removeChannel(selectedChannelId)
+              }}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
           </div>
         </aside>
 
@@ -393,66 +954,214 @@ export default function AppPage() {
         <main className="flex flex-1 flex-col overflow-hidden bg-background">
           <div className="flex h-10 shrink-0 items-center border-b border-border px-4">
             <MessageSquare className="mr-2 h-4 w-4 text-muted-foreground" />
-            <span className="text-sm font-medium">Chat</span>
-            {selectedChannelId != null && channelsById[selectedChannelId] && (
-              <span className="ml-2 text-xs text-muted-foreground">in {channelsById[selectedChannelId].name}</span>
+            <span className="text-sm font-medium">{isPrivateThread ? 'Private chat' : 'Chat'}</span>
+            {threadKey && (
+              <span className="ml-2 truncate text-xs text-muted-foreground">
+                {isPrivateThread ? 'with' : 'in'} {threadLabel(threadKey)}
+              </span>
             )}
+            <div className="relative ml-auto w-48">
+              <Search className="absolute left-2 top-1.5 h-3.5 w-3.5 text-muted-foreground" />
+              <Input
+                className="h-7 pl-7 text-xs"
+                value={chatSearch}
+                onChange={(e) => setChatSearch(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Escape') setChatSearch('')
+                }}
+                placeholder="Search history"
+              />
+            </div>
           </div>
+          {!isPrivateThread && selectedDescriptionHtml && (
+            <div
+              className="max-h-32 shrink-0 overflow-y-auto break-words border-b border-border bg-card/30 px-4 py-2 text-xs text-muted-foreground [&_a]:text-primary [&_a]:underline [&_img]:max-w-full"
+              dangerouslySetInnerHTML={{ __html: selectedDescriptionHtml }}
+            />
+          )}
 
-          <div className="flex-1 overflow-y-auto p-4 space-y-4">
-            {chat.length === 0 ? (
-              <div className="flex h-full flex-col items-center justify-center text-muted-foreground opacity-50">
-                <MessageSquare className="mb-2 h-8 w-8" />
-                <p className="text-sm">No messages yet</p>
-              </div>
-            ) : (
-              chat.map((m) => {
-                const isSystem = m.senderId === 0
-                const isMe = m.senderId === selfUserId
-                const user = usersById[m.senderId]
-                return (
-                  <div key={m.id} className={cn("flex flex-col gap-1 text-sm animate-in slide-in-from-left-2", isSystem && "items-center")}>
-                    {!isSystem && (
-                      <div className="flex items-baseline gap-2">
-                        <span className={cn("font-semibold text-xs", isMe ? "text-primary" : "text-foreground")}>
-                          {user?.name || (isMe ? 'Me' : `#${m.senderId}`)}
-                        </span>
-                        <span className="text-[10px] text-muted-foreground opacity-50">
-                          {new Date(m.timestampMs).toLocaleTimeString()}
-                        </span>
+          {searchResults ? (
+            <div className="flex-1 overflow-y-auto p-2">
+              {searchResults.length === 0 ? (
+                <p className="p-4 text-center text-sm text-muted-foreground">No matching messages</p>
+              ) : (
+                <ul className="space-y-1">
+                  {searchResults.map((m) => (
+                    <li key={m.id}>
+                      <button
+                        className="w-full rounded-md px-3 py-2 text-left text-sm hover:bg-accent"
+                        onClick={() => {
+                          const info = parseThreadKey(m.thread)
+                          if (info?.kind === 'channel' && channelsById[info.channelId]) selectChannel(info.channelId)
+                          else openThread(m.thread)
+                          setChatSearch('')
+                        }}
+                      >
+                        <div className="flex items-baseline gap-2 text-xs">
+                          <span className="font-semibold">{m.senderName || `#${m.senderId}`}</span>
+                          <span className="text-muted-foreground">{threadLabel(m.thread)}</span>
+                          <span className="ml-auto text-[10px] text-muted-foreground">{new Date(m.timestampMs).toLocaleString()}</span>
+                        </div>
+                        <div className="truncate text-muted-foreground">{htmlToText(m.message)}</div>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ) : (
+            <div
+              ref={chatScrollRef}
+              className="flex-1 overflow-y-auto p-4 space-y-4"
+              onScroll={(e) => {
+                const el = e.currentTarget
+                if (el.scrollTop > 48 || !threadKey || !thread?.hasOlder || thread.loadingOlder) return
+                prependAnchorRef.current = { key: threadKey, height: el.scrollHeight }
+                loadOlderMessages(threadKey)
+              }}
+            >
+              {thread?.loadingOlder && (
+                <div className="flex justify-center text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                </div>
+              )}
+              {chatMessages.length === 0 ? (
+                <div className="flex h-full flex-col items-center justify-center text-muted-foreground opacity-50">
+                  <MessageSquare className="mb-2 h-8 w-8" />
+                  <p className="text-sm">No messages yet</p>
+                </div>
+              ) : (
+                chatMessages.map((m) => {
+                  const isSystem = m.system === true
+                  const isMe = m.own === true
+                  return (
+                    <div key={m.id} className={cn("flex flex-col gap-1 text-sm animate-in slide-in-from-left-2", isSystem && "items-center")}>
+                      {!isSystem && (
+                        <div className="flex items-baseline gap-2">
+                          <span className={cn("font-semibold text-xs", isMe ? "text-primary" : "text-foreground")}>
+                            {m.senderName || (isMe ? 'Me' : `#${m.senderId}`)}
+                          </span>
+                          <span className="text-[10px] text-muted-foreground opacity-50">
+                            {new Date(m.timestampMs).toDateString() === new Date().toDateString()
+                              ? new Date(m.timestampMs).toLocaleTimeString()
+                              : new Date(m.timestampMs).toLocaleString()}
+                          </span>
+                        </div>
+                      )}
+                      <div className={cn(
+                        "rounded-lg px-3 py-2 max-w-[85%]",
+                        isSystem ? "bg-muted text-xs text-muted-foreground" :
+                          isMe ? "bg-primary text-primary-foreground self-end" : "bg-accent/50 text-foreground self-start"
+                      )}>
+                        {isSystem ? m.message : <RichText html={m.message} maxImageLength={serverConfig?.imageMessageLength} />}
                       </div>
-                    )}
-                    <div className={cn(
-                      "rounded-lg px-3 py-2 max-w-[85%]",
-                      isSystem ? "bg-muted text-xs text-muted-foreground" :
-                        isMe ? "bg-primary text-primary-foreground self-end" : "bg-accent/50 text-foreground self-start"
-                    )}>
-                      {m.message}
                     </div>
-                  </div>
-                )
-              })
-            )}
-            <div ref={chatEndRef} />
-          </div>
+                  )
+                })
+              )}
+              <div ref={chatEndRef} />
+            </div>
+          )}
 
           <div className="p-4 pt-2">
+            {showPreview && (
+              <div className="mb-2 max-h-40 overflow-y-auto rounded-md border border-dashed border-border px-3 py-2 text-sm">
+                <div className="mb-1 text-[10px] font-medium uppercase tracking-wider text-muted-foreground">Preview</div>
+                <RichText html={outgoingHtml} />
+              </div>
+            )}
             <form
-              className="flex gap-2"
+              className="flex items-end gap-2"
               onSubmit={(e) => {
                 e.preventDefault()
-                if (!message.trim()) return
-                sendTextToSelectedChannel(message)
+                if (!message.trim() || messageTooLong) return
+                sendChatHtml(outgoingHtml)
                 setMessage('')
               }}
             >
-              <Input
+              <Textarea
                 value={message}
+                rows={Math.min(6, message.split('\n').length)}
                 onChange={(e) => setMessage(e.target.value)}
-                placeholder={selectedChannelId ? `Message ${channelsById[selectedChannelId]?.name}...` : "Send a message..."}
-                className="flex-1"
+                onKeyDown={(e) => {
+                  // Enter sends, Shift+Enter starts a new line (lists, code blocks).
+                  if (e.key !== 'Enter' || e.shiftKey || e.nativeEvent.isComposing) return
+                  e.preventDefault()
+                  e.currentTarget.form?.requestSubmit()
+                }}
+                onPaste={(e) => {
+                  const file = Array.from(e.clipboardData.files).find((f) => f.type.startsWith('image/'))
+                  if (!file || !canSendText) return
+                  e.preventDefault()
+                  void sendImage(file)
+                }}
+                placeholder={
+                  isPrivateThread
+                    ? privatePeer ? `Message @${privatePeer.name}...` : `${threadKey ? peerName(threadKey) : ''} is offline`
+                    : !canSendText
+                    ? 'No permission to send messages here'
+                    : selectedChannelId ? `Message ${channelsById[selectedChannelId]?.name}${sendToSubchannels ? ' and subchannels' : ''}...` : "Send a message..."
+                }
+                className={cn("flex-1", messageTooLong && "border-destructive focus-visible:ring-destructive")}
+                disabled={!canSendText}
               />
-              <Button type="submit" size="icon" disabled={!message.trim()}>
+              <input
+                ref={imageInputRef}
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  e.target.value = ''
+                  if (file) void sendImage(file)
+                }}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="text-muted-foreground hover:text-foreground"
+                title="Send image"
+                disabled={!canSendText || encodingImage}
+                onClick={() => imageInputRef.current?.click()}
+              >
+                {encodingImage ? <Loader2 className="h-4 w-4 animate-spin" /> : <ImagePlus className="h-4 w-4" />}
+              </Button>
+              <Button
+                type="button"
+                variant={composeMarkdown ? "secondary" : "ghost"}
+                size="icon"
+                className={cn(!composeMarkdown && "text-muted-foreground hover:text-foreground")}
+                title={composeMarkdown ? "Markdown formatting on (click to send raw text)" : "Sending raw text (click to enable Markdown)"}
+                aria-pressed={composeMarkdown}
+                disabled={!canSendText}
+                onClick={() => setComposeMarkdown((v) => !v)}
+              >
+                <Pilcrow className="h-4 w-4" />
+              </Button>
+              {!isPrivateThread && (
+                <Button
+                  type="button"
+                  variant={sendToSubchannels ? "secondary" : "ghost"}
+                  size="icon"
+                  className={cn(!sendToSubchannels && "text-muted-foreground hover:text-foreground")}
+                  title={sendToSubchannels ? "Sending to channel and subchannels" : "Send to channel and subchannels"}
+                  aria-pressed={sendToSubchannels}
+                  disabled={!canSendText}
+                  onClick={() => setSendToSubchannels((v) => !v)}
+                >
+                  <ListTree className="h-4 w-4" />
+                </Button>
+              )}
+              {messageLimit != null && outgoingHtml.length > messageLimit * 0.8 && (
+                <span
+                  className={cn("self-center text-xs tabular-nums", messageTooLong ? "text-destructive" : "text-muted-foreground")}
+                  title="Server message length limit"
+                >
+                  {outgoingHtml.length}/{messageLimit}
+                </span>
+              )}
+              <Button type="submit" size="icon" disabled={!canSendText || !message.trim() || messageTooLong}>
                 <Send className="h-4 w-4" />
               </Button>
             </form>
@@ -477,17 +1186,47 @@ export default function AppPage() {
                       "group flex items-center gap-2 rounded-md px-2 py-1.5 text-sm transition-all",
                       isSpeaking ? "bg-green-500/10 text-green-500 shadow-sm ring-1 ring-green-500/20" : "hover:bg-accent text-foreground"
                     )}
+                    onContextMenu={(e) => {
+                      e.preventDefault()
+                      setUserMenu({ userId: u.id, x: e.clientX, y: e.clientY })
+                    }}
                   >
-                    <div className={cn(
-                      "relative flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-accent/50 text-xs font-medium uppercase",
-                      isSpeaking && "bg-green-500 text-white animate-pulse"
-                    )}>
-                      {u.name.slice(0, 2)}
+                    <button
+                      className="relative shrink-0 rounded-full"
+                      title="Show profile"
+                      onClick={(e) => {
+                        const rect = e.currentTarget.getBoundingClientRect()
+                        setProfileTarget({ userId: u.id, x: rect.left, y: rect.bottom + 4 })
+                      }}
+                    >
+                      <UserAvatar
+                        name={u.name}
+                        src={avatarsByUserId[u.id]}
+                        className={cn(isSpeaking && "ring-2 ring-green-500", isSpeaking && !avatarsByUserId[u.id] && "bg-green-500 text-white animate-pulse")}
+                      />
                       {isSpeaking && <span className="absolute -bottom-0.5 -right-0.5 block h-2.5 w-2.5 rounded-full bg-green-500 ring-2 ring-background" />}
-                    </div>
-                    <div className="flex flex-col overflow-hidden">
+                    </button>
+                    <div className="flex flex-1 flex-col overflow-hidden">
                       <span className={cn("truncate font-medium", isSelf && "text-primary")}>{u.name} {isSelf && '(You)'}</span>
                     </div>
+                    <div className="flex shrink-0 items-center gap-1 text-muted-foreground">
+                      {u.registeredId != null && <BadgeCheck className="h-3.5 w-3.5 text-primary" aria-label="Registered" />}
+                      {u.prioritySpeaker && <Megaphone className="h-3.5 w-3.5" aria-label="Priority speaker" />}
+                      {(u.mute || u.suppress) && <MicOff className="h-3.5 w-3.5 text-destructive" aria-label={u.suppress ? 'Suppressed' : 'Server muted'} />}
+                      {u.deaf && <HeadphoneOff className="h-3.5 w-3.5 text-destructive" aria-label="Server deafened" />}
+                      {!u.mute && !u.suppress && u.selfMute && !u.selfDeaf && <MicOff className="h-3.5 w-3.5" aria-label="Self muted" />}
+                      {!u.deaf && u.selfDeaf && <HeadphoneOff className="h-3.5 w-3.5" aria-label="Self deafened" />}
+                      <button
+                        className="rounded-sm p-0.5 opacity-0 transition-opacity hover:bg-accent group-hover:opacity-100 focus:opacity-100"
+                        title="User actions"
+                        onClick={(e) => {
+                          const rect = e.currentTarget.getBoundingClientRect()
+                          setUserMenu({ userId: u.id, x: rect.left, y: rect.bottom })
+                        }}
+                      >
+                        <MoreVertical className="h-4 w-4" />
+                      </button>
+                    </div>
                   </li>
                 )
               })}
@@ -502,17 +1241,14 @@ export default function AppPage() {
           {/* Left: Audio Toggle */}
           <div className="flex items-center gap-3">
             <Button
-              variant={muted ? "destructive" : "secondary"}
+              variant={selfDeafened ? "destructive" : "secondary"}
               size="sm"
               className="w-32 transition-all"
-              onClick={() => {
-                const newMuted = !muted
-                setMuted(newMuted)
-                voiceRef.current?.setMuted(newMuted)
-              }}
+              title={selfDeafened ? 'Undeafen' : 'Deafen (also mutes your microphone)'}
+              onClick={() => setSelfDeaf(!selfDeafened)}
             >
-              {muted ? <VolumeX className="mr-2 h-4 w-4" /> : <Volume2 className="mr-2 h-4 w-4" />}
-              {muted ? 'Muted' : 'Unmuted'}
+              {selfDeafened ? <VolumeX className="mr-2 h-4 w-4" /> : <Volume2 className="mr-2 h-4 w-4" />}
+              {selfDeafened ? 'Deafened' : 'Listening'}
             </Button>
 
             <div className="h-8 w-[1px] bg-border" />
@@ -520,7 +1256,7 @@ export default function AppPage() {
             <Button
               variant={micEnabled ? (captureStats?.sending ? "destructive" : "secondary") : "outline"}
               size="icon"
-              disabled={status !== 'connected' || !webCodecsAvailable}
+              disabled={status !== 'connected' || !opusAvailable}
               className={cn("rounded-full h-10 w-10", micEnabled && captureStats?.sending && "animate-pulse bg-red-500/20 text-red-500 hover:bg-red-500/30 border-red-500/50")}
               onClick={async () => {
                 if (micEnabled) {
@@ -567,6 +1303,32 @@ export default function AppPage() {
                   </div>
                 </div>
 
+                <div className="flex items-center gap-2">
+                  <span className="text-[10px] font-medium uppercase text-muted-foreground w-8">To</span>
+                  <select
+                    className={cn(
+                      "h-6 rounded-md border border-input bg-background px-1 text-[10px]",
+                      activeVoiceTargetId != null && "border-primary text-primary"
+                    )}
+                    value={activeVoiceTargetId ?? selectedVoiceTargetId}
+                    onChange={(e) => selectVoiceTarget(Number(e.target.value))}
+                  >
+                    <option value={0}>Channel</option>
+                    {voiceTargets.map((t) => (
+                      <option key={t.id} value={t.id}>
+                        {t.kind === 'whisper' ? 'Whisper' : 'Shout'}: {t.name}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    className="rounded-sm p-0.5 text-muted-foreground hover:bg-accent hover:text-foreground"
+                    title="Configure whisper/shout targets"
+                    onClick={() => setShowVoiceTargets(true)}
+                  >
+                    <Radio className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+
                 {voiceMode === 'ptt' && (
                   <Button
                     size="sm"
@@ -611,6 +1373,73 @@ export default function AppPage() {
         open={showSettings}
         onOpenChange={setShowSettings}
       />
+
+      {/* Whisper/Shout Targets Modal */}
+      <VoiceTargetsDialog
+        open={showVoiceTargets}
+        onOpenChange={setShowVoiceTargets}
+      />
+
+      {/* User Context Menu */}
+      <ContextMenu
+        position={userMenu}
+        items={userMenuItems}
+        onClose={closeUserMenu}
+      />
+
+      {/* Channel Context Menu */}
+      <ContextMenu
+        position={channelMenu}
+        items={channelMenuItems}
+        onClose={closeChannelMenu}
+      />
+
+      {/* User Profile Popover */}
+      <UserProfilePopover
+        target={profileTarget}
+        onClose={closeProfile}
+        onEditProfile={() => setShowProfileEditor(true)}
+      />
+
+      {/* User Statistics Popover */}
+      <UserStatsPopover
+        target={statsTarget}
+        onClose={closeStats}
+      />
+
+      {/* Own Comment/Avatar Editor */}
+      <ProfileDialog
+        open={showProfileEditor}
+        onOpenChange={setShowProfileEditor}
+      />
+
+      {/* Registered Users (admin) */}
+      <RegisteredUsersDialog
+        open={showRegisteredUsers}
+        onOpenChange={setShowRegisteredUsers}
+      />
+
+      {/* Ban List (admin) */}
+      <BanListDialog
+        open={showBanList}
+        onOpenChange={setShowBanList}
+      />
+
+      {/* Channel ACL Editor */}
+      <AclDialog
+        channelId={aclChannelId}
+        onOpenChange={(open) => {
+          if (!open) setAclChannelId(null)
+        }}
+      />
+
+      {/* Channel Create/Edit Modal */}
+      <ChannelDialog
+        mode={channelDialog}
+        onOpenChange={(open) => {
+          if (!open) setChannelDialog(null)
+        }}
+      />
     </div>
   )
 }
@@ -6,8 +6,10 @@ import { Button } from '../components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '../components/ui/card'
 import { Input } from '../components/ui/input'
 import { Label } from '../components/ui/label'
+import { IdentityDialog } from '../components/ui/identity-dialog'
 import { useGatewayStore } from '../src/state/gateway-store'
-import { RadioTower, User, KeyRound, Server, ArrowRight, Loader2, AlertCircle } from 'lucide-react'
+import { listIdentities, type IdentityInfo } from '../src/identity/certificates'
+import { RadioTower, User, KeyRound, Server, ArrowRight, Loader2, AlertCircle, ShieldCheck, Settings2 } from 'lucide-react'
 import { cn } from '../src/ui/cn'
 
 export default function ConnectPage() {
@@ -18,11 +20,20 @@ export default function ConnectPage() {
   const [username, setUsername] = useState('')
   const [password, setPassword] = useState('')
   const [tokens, setTokens] = useState('')
+  const [identities, setIdentities] = useState<IdentityInfo[]>([])
+  const [identityId, setIdentityId] = useState(() => useGatewayStore.getState()._lastConnectArgs?.identityId ?? '')
+  const [identityDialogOpen, setIdentityDialogOpen] = useState(false)
 
   useEffect(() => {
     init()
   }, [init, disconnect])
 
+  useEffect(() => {
+    listIdentities()
+      .then(setIdentities)
+      .catch(() => setIdentities([]))
+  }, [])
+
   useEffect(() => {
     if (status === 'connected') {
       router.push('/app')
@@ -50,7 +61,8 @@ export default function ConnectPage() {
       serverId,
       username,
       ...(password ? { password } : {}),
-      ...(parsedTokens.length ? { tokens: parsedTokens } : {})
+      ...(parsedTokens.length ? { tokens: parsedTokens } : {}),
+      ...(identityId && identities.some((i) => i.id === identityId) ? { identityId } : {})
     })
   }
 
@@ -117,6 +129,26 @@ export default function ConnectPage() {
                   placeholder="Password (Optional)"
                 />
               </div>
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <ShieldCheck className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                  <select
+                    className="flex h-10 w-full rounded-md border border-input bg-background/50 px-3 pl-9 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 appearance-none"
+                    value={identityId}
+                    onChange={(e) => setIdentityId(e.target.value)}
+                  >
+                    <option value="">No certificate</option>
+                    {identities.map((i) => (
+                      <option key={i.id} value={i.id}>
+                        {i.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <Button variant="outline" size="icon" className="h-10 w-10 shrink-0" title="Manage certificates" onClick={() => setIdentityDialogOpen(true)}>
+                  <Settings2 className="h-4 w-4" />
+                </Button>
+              </div>
             </div>
           </div>
 
@@ -170,6 +202,17 @@ export default function ConnectPage() {
           </div>
         </CardFooter>
       </Card>
+
+      <IdentityDialog
+        open={identityDialogOpen}
+        onOpenChange={setIdentityDialogOpen}
+        defaultName={username}
+        onIdentitiesChange={(list, selectId) => {
+          setIdentities(list)
+          if (selectId) setIdentityId(selectId)
+          else if (!list.some((i) => i.id === identityId)) setIdentityId('')
+        }}
+      />
     </main>
   )
 }
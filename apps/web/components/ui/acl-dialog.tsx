@@ -0,0 +1,523 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Button } from './button'
+import { Input } from './input'
+import { Label } from './label'
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from './dialog'
+import { useGatewayStore, type AclEntry, type AclGroup, type ChannelAcl } from '../../src/state/gateway-store'
+import { BUILTIN_ACL_GROUPS, PERMISSION_INFO, Permission } from '../../src/mumble/permissions'
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2, X } from 'lucide-react'
+import { cn } from '../../src/ui/cn'
+
+interface AclDialogProps {
+  channelId: number | null
+  onOpenChange: (open: boolean) => void
+}
+
+type Tab = 'acl' | 'groups'
+
+const selectClassName = 'w-full h-9 px-3 rounded-md border border-input bg-background text-sm disabled:opacity-50'
+
+function cloneAcl(acl: ChannelAcl): ChannelAcl {
+  return {
+    ...acl,
+    groups: acl.groups.map((g) => ({ ...g, add: [...g.add], remove: [...g.remove], inheritedMembers: [...g.inheritedMembers] })),
+    acls: acl.acls.map((a) => ({ ...a }))
+  }
+}
+
+export function AclDialog({ channelId, onOpenChange }: AclDialogProps) {
+  const { channelAcl, channelsById, usersById, registeredUserNames, registeredUserIds, queryAcl, updateAcl, resolveUsers } = useGatewayStore()
+
+  const [draft, setDraft] = useState<ChannelAcl | null>(null)
+  const [tab, setTab] = useState<Tab>('acl')
+  const [selectedAcl, setSelectedAcl] = useState<number | null>(null)
+  const [selectedGroup, setSelectedGroup] = useState<number | null>(null)
+  const [memberInput, setMemberInput] = useState('')
+  // Member typed by name that isn't cached yet; added once the server resolved it.
+  const [pendingMember, setPendingMember] = useState<{ group: number; name: string } | null>(null)
+
+  useEffect(() => {
+    setDraft(null)
+    setTab('acl')
+    setSelectedAcl(null)
+    setSelectedGroup(null)
+    setMemberInput('')
+    setPendingMember(null)
+    if (channelId != null) queryAcl(channelId)
+  }, [channelId, queryAcl])
+
+  useEffect(() => {
+    if (draft || !channelAcl || channelAcl.channelId !== channelId) return
+    setDraft(cloneAcl(channelAcl))
+  }, [channelAcl, channelId, draft])
+
+  const channel = channelId != null ? channelsById[channelId] : undefined
+  const isRoot = channel != null && channel.parentId == null
+
+  // ACLs and groups reference registered user ids: names come from online users, the rest is looked up
+  // on the server (resolveUsers).
+  const nameByRegisteredId = useMemo(() => {
+    const out = new Map<number, string>()
+    for (const [id, name] of Object.entries(registeredUserNames)) {
+      if (name != null) out.set(Number(id), name)
+    }
+    for (const u of Object.values(usersById)) {
+      if (u.registeredId != null) out.set(u.registeredId, u.name)
+    }
+    return out
+  }, [usersById, registeredUserNames])
+
+  useEffect(() => {
+    if (!draft) return
+    const ids = new Set<number>()
+    for (const a of draft.acls) if (a.userId != null) ids.add(a.userId)
+    for (const g of draft.groups) for (const id of [...g.add, ...g.remove, ...g.inheritedMembers]) ids.add(id)
+    const missing = [...ids].filter((id) => !nameByRegisteredId.has(id))
+    if (missing.length) resolveUsers({ ids: missing })
+  }, [draft, nameByRegisteredId, resolveUsers])
+
+  const userLabel = (id: number) => nameByRegisteredId.get(id) ?? `#${id}`
+
+  const parseUserRef = (text: string): number | null => {
+    const trimmed = text.trim().replace(/^#/, '')
+    if (!trimmed) return null
+    if (/^\d+$/.test(trimmed)) return Number(trimmed)
+    for (const [id, name] of nameByRegisteredId) {
+      if (name.toLowerCase() === trimmed.toLowerCase()) return id
+    }
+    return registeredUserIds[trimmed.toLowerCase()] ?? null
+  }
+
+  const groupNames = useMemo(() => {
+    const names = new Set<string>(BUILTIN_ACL_GROUPS)
+    for (const g of draft?.groups ?? []) names.add(g.name)
+    return [...names]
+  }, [draft?.groups])
+
+  const visibleAcls = draft ? draft.acls.map((a, index) => ({ a, index })).filter(({ a }) => draft.inheritAcls || !a.inherited) : []
+  const firstOwnAcl = draft ? draft.acls.findIndex((a) => !a.inherited) : -1
+
+  const patchAcl = (index: number, patch: Partial<AclEntry>) => {
+    setDraft((cur) => (cur ? { ...cur, acls: cur.acls.map((a, i) => (i === index ? { ...a, ...patch } : a)) } : cur))
+  }
+
+  const patchGroup = (index: number, patch: Partial<AclGroup>) => {
+    setDraft((cur) => (cur ? { ...cur, groups: cur.groups.map((g, i) => (i === index ? { ...g, ...patch } : g)) } : cur))
+  }
+
+  const setPermission = (index: number, bit: number, kind: 'grant' | 'deny', on: boolean) => {
+    const entry = draft?.acls[index]
+    if (!entry) return
+    const other = kind === 'grant' ? 'deny' : 'grant'
+    patchAcl(index, {
+      [kind]: on ? entry[kind] | bit : entry[kind] & ~bit,
+      // Allow and deny are mutually exclusive for a single entry.
+      [other]: on ? entry[other] & ~bit : entry[other]
+    })
+  }
+
+  const addAcl = () => {
+    if (!draft) return
+    const entry: AclEntry = { applyHere: true, applySubs: true, inherited: false, group: 'all', grant: 0, deny: 0 }
+    setDraft({ ...draft, acls: [...draft.acls, entry] })
+    setSelectedAcl(draft.acls.length)
+  }
+
+  const moveAcl = (index: number, delta: number) => {
+    if (!draft) return
+    const to = index + delta
+    if (to < firstOwnAcl || to >= draft.acls.length) return
+    const acls = [...draft.acls]
+    const [moved] = acls.splice(index, 1)
+    if (!moved) return
+    acls.splice(to, 0, moved)
+    setDraft({ ...draft, acls })
+    setSelectedAcl(to)
+  }
+
+  const addGroup = () => {
+    if (!draft) return
+    const name = window.prompt('Group name')?.trim()
+    if (!name) return
+    const existing = draft.groups.findIndex((g) => g.name === name)
+    if (existing >= 0) {
+      setSelectedGroup(existing)
+      return
+    }
+    const group: AclGroup = { name, inherited: false, inherit: true, inheritable: true, add: [], remove: [], inheritedMembers: [] }
+    setDraft({ ...draft, groups: [...draft.groups, group] })
+    setSelectedGroup(draft.groups.length)
+  }
+
+  const addMember = (index: number, input = memberInput) => {
+    const group = draft?.groups[index]
+    if (!group) return
+    const id = parseUserRef(input)
+    if (id == null) {
+      const name = input.trim()
+      if (name && !/^#?\d+$/.test(name) && registeredUserIds[name.toLowerCase()] === undefined) {
+        setPendingMember({ group: index, name })
+        resolveUsers({ names: [name] })
+        return
+      }
+      window.alert('Enter a registered user id, or the name of a registered user.')
+      return
+    }
+    setMemberInput('')
+    if (group.inheritedMembers.includes(id)) {
+      patchGroup(index, { remove: group.remove.filter((m) => m !== id) })
+    } else if (!group.add.includes(id)) {
+      patchGroup(index, { add: [...group.add, id] })
+    }
+  }
+
+  useEffect(() => {
+    if (!pendingMember) return
+    const id = registeredUserIds[pendingMember.name.toLowerCase()]
+    if (id === undefined) return
+    setPendingMember(null)
+    if (id === null) window.alert(`No registered user named "${pendingMember.name}".`)
+    else addMember(pendingMember.group, String(id))
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pendingMember, registeredUserIds])
+
+  const acl = selectedAcl != null ? draft?.acls[selectedAcl] : undefined
+  const group = selectedGroup != null ? draft?.groups[selectedGroup] : undefined
+
+  return (
+    <Dialog open={channelId != null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>ACL: {channel?.name || 'channel'}</DialogTitle>
+        </DialogHeader>
+
+        {!draft ? (
+          <div className="flex items-center gap-2 py-8 text-sm text-muted-foreground justify-center">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading ACL…
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex rounded-md border border-input p-0.5 w-fit">
+              {(['acl', 'groups'] as const).map((t) => (
+                <button
+                  key={t}
+                  type="button"
+                  onClick={() => setTab(t)}
+                  className={cn('px-3 py-1 text-xs font-medium rounded-sm transition-colors', tab === t ? 'bg-primary text-primary-foreground' : 'hover:bg-accent')}
+                >
+                  {t === 'acl' ? 'ACL' : 'Groups'}
+                </button>
+              ))}
+            </div>
+
+            {tab === 'acl' ? (
+              <div className="grid gap-4 md:grid-cols-[minmax(0,1fr)_minmax(0,1.4fr)]">
+                <div className="space-y-2">
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 accent-primary"
+                      checked={draft.inheritAcls}
+                      onChange={(e) => setDraft({ ...draft, inheritAcls: e.target.checked })}
+                    />
+                    Inherit ACLs from parent
+                  </label>
+                  <ul className="max-h-72 overflow-y-auto divide-y divide-border rounded-md border border-border">
+                    {visibleAcls.length === 0 && <li className="px-3 py-2 text-xs text-muted-foreground">No entries.</li>}
+                    {visibleAcls.map(({ a, index }) => (
+                      <li key={index}>
+                        <button
+                          type="button"
+                          className={cn(
+                            'flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm',
+                            selectedAcl === index ? 'bg-primary/10 text-primary' : 'hover:bg-accent',
+                            a.inherited && 'italic text-muted-foreground'
+                          )}
+                          onClick={() => setSelectedAcl(index)}
+                        >
+                          <span className="flex-1 truncate">{a.userId != null ? userLabel(a.userId) : `@${a.group ?? ''}`}</span>
+                          {a.inherited && <span className="text-[10px] uppercase">inherited</span>}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="flex gap-1">
+                    <Button type="button" size="sm" variant="outline" onClick={addAcl}>
+                      <Plus className="h-4 w-4" />
+                      Add
+                    </Button>
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      title="Move up"
+                      disabled={!acl || acl.inherited || selectedAcl === firstOwnAcl}
+                      onClick={() => selectedAcl != null && moveAcl(selectedAcl, -1)}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      title="Move down"
+                      disabled={!acl || acl.inherited || selectedAcl === draft.acls.length - 1}
+                      onClick={() => selectedAcl != null && moveAcl(selectedAcl, 1)}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      title="Remove entry"
+                      disabled={!acl || acl.inherited}
+                      onClick={() => {
+                        if (selectedAcl == null) return
+                        setDraft({ ...draft, acls: draft.acls.filter((_, i) => i !== selectedAcl) })
+                        setSelectedAcl(null)
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                {acl && selectedAcl != null ? (
+                  <fieldset disabled={acl.inherited} className="space-y-3">
+                    {acl.inherited && <p className="text-xs text-muted-foreground">Inherited from a parent channel; edit it there.</p>}
+                    <div className="grid grid-cols-[8rem_minmax(0,1fr)] gap-2">
+                      <select
+                        className={selectClassName}
+                        value={acl.userId != null ? 'user' : 'group'}
+                        onChange={(e) => {
+                          const { userId: _u, group: _g, ...rest } = acl
+                          const next: AclEntry = e.target.value === 'user' ? { ...rest, userId: 0 } : { ...rest, group: 'all' }
+                          setDraft({ ...draft, acls: draft.acls.map((a, i) => (i === selectedAcl ? next : a)) })
+                        }}
+                      >
+                        <option value="group">Group</option>
+                        <option value="user">User</option>
+                      </select>
+                      {acl.userId != null ? (
+                        <Input
+                          key={`user-${selectedAcl}`}
+                          defaultValue={userLabel(acl.userId)}
+                          placeholder="Registered user id or name"
+                          onBlur={(e) => {
+                            const id = parseUserRef(e.target.value)
+                            if (id == null) e.target.value = userLabel(acl.userId ?? 0)
+                            else patchAcl(selectedAcl, { userId: id })
+                          }}
+                        />
+                      ) : (
+                        <>
+                          <Input list="acl-group-names" value={acl.group ?? ''} onChange={(e) => patchAcl(selectedAcl, { group: e.target.value })} />
+                          <datalist id="acl-group-names">
+                            {groupNames.map((n) => (
+                              <option key={n} value={n} />
+                            ))}
+                          </datalist>
+                        </>
+                      )}
+                    </div>
+                    <div className="flex gap-4">
+                      <label className="flex items-center gap-2 text-sm">
+                        <input type="checkbox" className="h-4 w-4 accent-primary" checked={acl.applyHere} onChange={(e) => patchAcl(selectedAcl, { applyHere: e.target.checked })} />
+                        Applies to this channel
+                      </label>
+                      <label className="flex items-center gap-2 text-sm">
+                        <input type="checkbox" className="h-4 w-4 accent-primary" checked={acl.applySubs} onChange={(e) => patchAcl(selectedAcl, { applySubs: e.target.checked })} />
+                        Applies to subchannels
+                      </label>
+                    </div>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-xs text-muted-foreground">
+                          <th className="text-left font-medium">Permission</th>
+                          <th className="w-16 font-medium">Allow</th>
+                          <th className="w-16 font-medium">Deny</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {PERMISSION_INFO.filter((p) => isRoot || !p.rootOnly).map((p) => {
+                          const bit = Permission[p.name]
+                          return (
+                            <tr key={p.name} className="border-t border-border/50">
+                              <td className="py-1">{p.label}</td>
+                              <td className="text-center">
+                                <input
+                                  type="checkbox"
+                                  className="h-4 w-4 accent-primary"
+                                  checked={(acl.grant & bit) !== 0}
+                                  onChange={(e) => setPermission(selectedAcl, bit, 'grant', e.target.checked)}
+                                />
+                              </td>
+                              <td className="text-center">
+                                <input
+                                  type="checkbox"
+                                  className="h-4 w-4 accent-destructive"
+                                  checked={(acl.deny & bit) !== 0}
+                                  onChange={(e) => setPermission(selectedAcl, bit, 'deny', e.target.checked)}
+                                />
+                              </td>
+                            </tr>
+                          )
+                        })}
+                      </tbody>
+                    </table>
+                  </fieldset>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Select an entry to edit its permissions. Entries are evaluated top to bottom; later entries win.</p>
+                )}
+              </div>
+            ) : (
+              <div className="grid gap-4 md:grid-cols-[minmax(0,1fr)_minmax(0,1.4fr)]">
+                <div className="space-y-2">
+                  <ul className="max-h-72 overflow-y-auto divide-y divide-border rounded-md border border-border">
+                    {draft.groups.length === 0 && <li className="px-3 py-2 text-xs text-muted-foreground">No groups.</li>}
+                    {draft.groups.map((g, index) => (
+                      <li key={g.name}>
+                        <button
+                          type="button"
+                          className={cn(
+                            'flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm',
+                            selectedGroup === index ? 'bg-primary/10 text-primary' : 'hover:bg-accent',
+                            g.inherited && 'italic'
+                          )}
+                          onClick={() => setSelectedGroup(index)}
+                        >
+                          <span className="flex-1 truncate">{g.name}</span>
+                          {g.inherited && <span className="text-[10px] uppercase text-muted-foreground">inherited</span>}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="flex gap-1">
+                    <Button type="button" size="sm" variant="outline" onClick={addGroup}>
+                      <Plus className="h-4 w-4" />
+                      Add
+                    </Button>
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      title="Remove group"
+                      disabled={!group || group.inherited}
+                      onClick={() => {
+                        if (selectedGroup == null) return
+                        setDraft({ ...draft, groups: draft.groups.filter((_, i) => i !== selectedGroup) })
+                        setSelectedGroup(null)
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                {group && selectedGroup != null ? (
+                  <div className="space-y-3">
+                    <div className="flex gap-4">
+                      <label className="flex items-center gap-2 text-sm">
+                        <input type="checkbox" className="h-4 w-4 accent-primary" checked={group.inherit} onChange={(e) => patchGroup(selectedGroup, { inherit: e.target.checked })} />
+                        Inherit members
+                      </label>
+                      <label className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4 accent-primary"
+                          checked={group.inheritable}
+                          onChange={(e) => patchGroup(selectedGroup, { inheritable: e.target.checked })}
+                        />
+                        Inheritable by subchannels
+                      </label>
+                    </div>
+
+                    <div className="space-y-1">
+                      <Label>Members</Label>
+                      <ul className="max-h-48 overflow-y-auto rounded-md border border-border p-1 text-sm">
+                        {group.inherit &&
+                          group.inheritedMembers.map((id) => {
+                            const excluded = group.remove.includes(id)
+                            return (
+                              <li key={`i-${id}`} className="flex items-center gap-2 px-2 py-1">
+                                <span className={cn('flex-1 truncate', excluded && 'line-through text-muted-foreground')}>{userLabel(id)}</span>
+                                <span className="text-[10px] uppercase text-muted-foreground">inherited</span>
+                                <button
+                                  type="button"
+                                  className="text-xs text-muted-foreground hover:text-foreground"
+                                  onClick={() =>
+                                    patchGroup(selectedGroup, { remove: excluded ? group.remove.filter((m) => m !== id) : [...group.remove, id] })
+                                  }
+                                >
+                                  {excluded ? 'Restore' : 'Exclude'}
+                                </button>
+                              </li>
+                            )
+                          })}
+                        {group.add.map((id) => (
+                          <li key={`a-${id}`} className="flex items-center gap-2 px-2 py-1">
+                            <span className="flex-1 truncate">{userLabel(id)}</span>
+                            <button
+                              type="button"
+                              className="text-muted-foreground hover:text-destructive"
+                              title="Remove member"
+                              onClick={() => patchGroup(selectedGroup, { add: group.add.filter((m) => m !== id) })}
+                            >
+                              <X className="h-3.5 w-3.5" />
+                            </button>
+                          </li>
+                        ))}
+                        {group.add.length === 0 && (!group.inherit || group.inheritedMembers.length === 0) && (
+                          <li className="px-2 py-1 text-xs text-muted-foreground">No members.</li>
+                        )}
+                      </ul>
+                      <form
+                        className="flex gap-2"
+                        onSubmit={(e) => {
+                          e.preventDefault()
+                          addMember(selectedGroup)
+                        }}
+                      >
+                        <Input value={memberInput} onChange={(e) => setMemberInput(e.target.value)} placeholder="Registered user id or name" />
+                        <Button type="submit" variant="outline" disabled={!memberInput.trim() || pendingMember != null}>
+                          Add
+                        </Button>
+                      </form>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Select a group to edit its members.</p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="secondary" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            disabled={!draft}
+            onClick={() => {
+              if (!draft) return
+              updateAcl(draft)
+              onOpenChange(false)
+            }}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,251 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from './button'
+import { Input } from './input'
+import { Label } from './label'
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from './dialog'
+import { useGatewayStore, type BanEntry } from '../../src/state/gateway-store'
+import { Loader2, Plus, Trash2 } from 'lucide-react'
+
+interface BanListDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const DURATION_PRESETS: Array<{ label: string; seconds: number }> = [
+  { label: 'Permanent', seconds: 0 },
+  { label: '1 hour', seconds: 60 * 60 },
+  { label: '1 day', seconds: 24 * 60 * 60 },
+  { label: '7 days', seconds: 7 * 24 * 60 * 60 },
+  { label: '30 days', seconds: 30 * 24 * 60 * 60 }
+]
+
+// The server sends Qt ISO dates without a zone; they are UTC.
+function parseStart(start: string | undefined): Date | null {
+  if (!start) return null
+  const d = new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(start) ? start : `${start}Z`)
+  return Number.isNaN(d.getTime()) ? null : d
+}
+
+function formatDuration(seconds: number | undefined): string {
+  if (!seconds) return 'Permanent'
+  const preset = DURATION_PRESETS.find((p) => p.seconds === seconds)
+  if (preset) return preset.label
+  if (seconds % 86400 === 0) return `${seconds / 86400} days`
+  if (seconds % 3600 === 0) return `${seconds / 3600} hours`
+  return `${seconds} s`
+}
+
+// Prefix length of a single host for the address family, or null if the text isn't an address yet.
+function hostBits(address: string): number | null {
+  const text = address.trim()
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(text)) return 32
+  if (/^[0-9a-fA-F:.]+$/.test(text) && text.includes(':')) return 128
+  return null
+}
+
+function emptyBan(): BanEntry {
+  return { address: '', mask: 32, name: '', certHash: '', reason: '', duration: 0 }
+}
+
+export function BanListDialog({ open, onOpenChange }: BanListDialogProps) {
+  const { banList, queryBanList, updateBanList } = useGatewayStore()
+
+  const [draft, setDraft] = useState<BanEntry[] | null>(null)
+  const [adding, setAdding] = useState<BanEntry | null>(null)
+
+  useEffect(() => {
+    setDraft(null)
+    setAdding(null)
+    if (open) queryBanList()
+  }, [open, queryBanList])
+
+  useEffect(() => {
+    if (!open || draft || !banList) return
+    setDraft(banList.map((b) => ({ ...b })))
+  }, [open, banList, draft])
+
+  const canAdd = adding != null && hostBits(adding.address) != null
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Ban list</DialogTitle>
+        </DialogHeader>
+
+        {!draft ? (
+          <div className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading ban list…
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="overflow-x-auto rounded-md border border-border">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50 text-xs text-muted-foreground">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium">Address</th>
+                    <th className="px-3 py-2 text-left font-medium">Name</th>
+                    <th className="px-3 py-2 text-left font-medium">Certificate hash</th>
+                    <th className="px-3 py-2 text-left font-medium">Reason</th>
+                    <th className="px-3 py-2 text-left font-medium">Start</th>
+                    <th className="px-3 py-2 text-left font-medium">Duration</th>
+                    <th className="w-10" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {draft.length === 0 && (
+                    <tr>
+                      <td colSpan={7} className="px-3 py-4 text-center text-xs text-muted-foreground">
+                        No bans.
+                      </td>
+                    </tr>
+                  )}
+                  {draft.map((b, i) => {
+                    const start = parseStart(b.start)
+                    const expires = start && b.duration ? new Date(start.getTime() + b.duration * 1000) : null
+                    return (
+                      <tr key={`${b.address}/${b.mask}-${i}`} className="border-t border-border/50">
+                        <td className="px-3 py-1.5 font-mono text-xs whitespace-nowrap">
+                          {b.address}/{b.mask}
+                        </td>
+                        <td className="px-3 py-1.5">{b.name || '-'}</td>
+                        <td className="px-3 py-1.5 max-w-[10rem] truncate font-mono text-[10px]" title={b.certHash}>
+                          {b.certHash || '-'}
+                        </td>
+                        <td className="px-3 py-1.5 max-w-[12rem] truncate" title={b.reason}>
+                          {b.reason || '-'}
+                        </td>
+                        <td className="px-3 py-1.5 whitespace-nowrap text-xs">{start ? start.toLocaleString() : '-'}</td>
+                        <td className="px-3 py-1.5 whitespace-nowrap text-xs" title={expires ? `Expires ${expires.toLocaleString()}` : undefined}>
+                          {formatDuration(b.duration)}
+                        </td>
+                        <td className="px-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                            title="Remove ban"
+                            onClick={() => setDraft(draft.filter((_, j) => j !== i))}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {!adding ? (
+              <Button size="sm" variant="outline" onClick={() => setAdding(emptyBan())}>
+                <Plus className="h-4 w-4" />
+                Add ban
+              </Button>
+            ) : (
+              <form
+                className="grid gap-3 rounded-md border border-border p-3 sm:grid-cols-2"
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  if (!canAdd) return
+                  const entry: BanEntry = {
+                    address: adding.address.trim(),
+                    mask: adding.mask,
+                    start: new Date().toISOString().slice(0, 19),
+                    duration: adding.duration ?? 0
+                  }
+                  if (adding.name?.trim()) entry.name = adding.name.trim()
+                  if (adding.certHash?.trim()) entry.certHash = adding.certHash.trim()
+                  if (adding.reason?.trim()) entry.reason = adding.reason.trim()
+                  setDraft([...draft, entry])
+                  setAdding(null)
+                }}
+              >
+                <div className="space-y-1">
+                  <Label htmlFor="ban-address">Address / mask</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="ban-address"
+                      value={adding.address}
+                      placeholder="192.0.2.0 or 2001:db8::"
+                      onChange={(e) => {
+                        const address = e.target.value
+                        // Default to a single host whenever the address family changes.
+                        const bits = hostBits(address)
+                        setAdding({ ...adding, address, mask: bits != null && bits !== hostBits(adding.address) ? bits : adding.mask })
+                      }}
+                    />
+                    <Input
+                      className="w-20"
+                      type="number"
+                      min={0}
+                      max={hostBits(adding.address) ?? 128}
+                      value={adding.mask}
+                      onChange={(e) => setAdding({ ...adding, mask: Number(e.target.value) })}
+                      aria-label="Mask bits"
+                    />
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="ban-duration">Duration</Label>
+                  <select
+                    id="ban-duration"
+                    className="w-full h-9 px-3 rounded-md border border-input bg-background text-sm"
+                    value={adding.duration ?? 0}
+                    onChange={(e) => setAdding({ ...adding, duration: Number(e.target.value) })}
+                  >
+                    {DURATION_PRESETS.map((p) => (
+                      <option key={p.seconds} value={p.seconds}>
+                        {p.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="ban-name">Name</Label>
+                  <Input id="ban-name" value={adding.name ?? ''} onChange={(e) => setAdding({ ...adding, name: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="ban-hash">Certificate hash</Label>
+                  <Input id="ban-hash" className="font-mono text-xs" value={adding.certHash ?? ''} onChange={(e) => setAdding({ ...adding, certHash: e.target.value })} />
+                </div>
+                <div className="space-y-1 sm:col-span-2">
+                  <Label htmlFor="ban-reason">Reason</Label>
+                  <Input id="ban-reason" value={adding.reason ?? ''} onChange={(e) => setAdding({ ...adding, reason: e.target.value })} />
+                </div>
+                <div className="flex justify-end gap-2 sm:col-span-2">
+                  <Button type="button" variant="secondary" size="sm" onClick={() => setAdding(null)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" size="sm" disabled={!canAdd}>
+                    Add
+                  </Button>
+                </div>
+              </form>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="secondary" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            disabled={!draft}
+            onClick={() => {
+              if (!draft) return
+              updateBanList(draft)
+              onOpenChange(false)
+            }}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,170 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Button } from './button'
+import { Input } from './input'
+import { Label } from './label'
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from './dialog'
+import { useGatewayStore } from '../../src/state/gateway-store'
+
+export type ChannelDialogMode = { kind: 'create'; parentId: number } | { kind: 'edit'; channelId: number }
+
+interface ChannelDialogProps {
+  mode: ChannelDialogMode | null
+  onOpenChange: (open: boolean) => void
+}
+
+export function ChannelDialog({ mode, onOpenChange }: ChannelDialogProps) {
+  const { channelsById, createChannel, updateChannel, requestChannelDescription } = useGatewayStore()
+
+  const editing = mode?.kind === 'edit' ? channelsById[mode.channelId] : undefined
+
+  const [name, setName] = useState('')
+  const [parentId, setParentId] = useState<number | null>(null)
+  const [description, setDescription] = useState('')
+  const [temporary, setTemporary] = useState(false)
+
+  useEffect(() => {
+    if (!mode) return
+    if (mode.kind === 'create') {
+      setName('')
+      setParentId(mode.parentId)
+      setDescription('')
+      setTemporary(false)
+    } else {
+      const ch = channelsById[mode.channelId]
+      setName(ch?.name ?? '')
+      setParentId(ch?.parentId ?? null)
+      setDescription(ch?.description ?? '')
+      setTemporary(false)
+    }
+    // Only reset the form when the dialog target changes.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [mode])
+
+  // A long description is fetched on demand; fill it in once it arrives if the field is still untouched.
+  const fetchedDescription = editing?.description
+  useEffect(() => {
+    if (mode?.kind !== 'edit') return
+    if (fetchedDescription == null) requestChannelDescription(mode.channelId)
+    else setDescription((cur) => cur || fetchedDescription)
+  }, [mode, fetchedDescription, requestChannelDescription])
+
+  // A channel can't be moved below itself or one of its own subchannels.
+  const parentOptions = useMemo(() => {
+    const all = Object.values(channelsById).sort((a, b) => a.name.localeCompare(b.name))
+    if (mode?.kind !== 'edit') return all
+    const excluded = new Set<number>([mode.channelId])
+    let changed = true
+    while (changed) {
+      changed = false
+      for (const ch of all) {
+        if (ch.parentId != null && excluded.has(ch.parentId) && !excluded.has(ch.id)) {
+          excluded.add(ch.id)
+          changed = true
+        }
+      }
+    }
+    return all.filter((ch) => !excluded.has(ch.id))
+  }, [channelsById, mode])
+
+  const isRoot = editing != null && editing.parentId == null
+  const canSubmit = Boolean(name.trim()) && (mode?.kind === 'edit' || parentId != null)
+
+  const handleSubmit = () => {
+    if (!mode || !canSubmit) return
+    if (mode.kind === 'create') {
+      if (parentId == null) return
+      createChannel({
+        parentId,
+        name,
+        ...(description.trim() ? { description } : {}),
+        ...(temporary ? { temporary } : {})
+      })
+    } else {
+      const ch = channelsById[mode.channelId]
+      const params: Parameters<typeof updateChannel>[0] = { channelId: mode.channelId }
+      if (name.trim() && name !== ch?.name) params.name = name
+      if (!isRoot && parentId != null && parentId !== ch?.parentId) params.parentId = parentId
+      if (description !== (ch?.description ?? '')) params.description = description
+      updateChannel(params)
+    }
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={mode != null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{mode?.kind === 'edit' ? `Edit ${editing?.name || 'channel'}` : 'Create channel'}</DialogTitle>
+        </DialogHeader>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault()
+            handleSubmit()
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="channel-name">Name</Label>
+            <Input id="channel-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Channel name" autoFocus />
+          </div>
+
+          {!isRoot && (
+            <div className="space-y-2">
+              <Label htmlFor="channel-parent">Parent</Label>
+              <select
+                id="channel-parent"
+                className="w-full h-9 px-3 rounded-md border border-input bg-background text-sm"
+                value={parentId ?? ''}
+                onChange={(e) => setParentId(e.target.value === '' ? null : Number(e.target.value))}
+              >
+                {parentOptions.map((ch) => (
+                  <option key={ch.id} value={ch.id}>
+                    {ch.name || '(unnamed)'}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="channel-description">Description</Label>
+            <textarea
+              id="channel-description"
+              className="flex min-h-[80px] w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Optional (HTML allowed)"
+            />
+          </div>
+
+          {mode?.kind === 'create' && (
+            <label className="flex items-start gap-3">
+              <input
+                type="checkbox"
+                className="mt-1 h-4 w-4 accent-primary"
+                checked={temporary}
+                onChange={(e) => setTemporary(e.target.checked)}
+              />
+              <div className="space-y-1">
+                <div className="text-sm font-medium">Temporary</div>
+                <div className="text-xs text-muted-foreground">The server removes the channel once it is empty.</div>
+              </div>
+            </label>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="secondary" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!canSubmit}>
+              {mode?.kind === 'edit' ? 'Save' : 'Create'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
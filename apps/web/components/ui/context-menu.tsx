@@ -0,0 +1,102 @@
+'use client'
+
+import * as React from 'react'
+import { cn } from '@/lib/utils'
+
+export type ContextMenuItem =
+  | {
+      label: string
+      icon?: React.ReactNode
+      onSelect: () => void
+      disabled?: boolean
+      destructive?: boolean
+    }
+  | { separator: true }
+  | { heading: string }
+
+interface ContextMenuProps {
+  position: { x: number; y: number } | null
+  items: ContextMenuItem[]
+  onClose: () => void
+}
+
+export function ContextMenu({ position, items, onClose }: ContextMenuProps) {
+  const ref = React.useRef<HTMLDivElement>(null)
+  const [adjusted, setAdjusted] = React.useState<{ x: number; y: number } | null>(null)
+
+  React.useEffect(() => {
+    if (!position) return
+    const onPointerDown = (e: PointerEvent) => {
+      if (ref.current && e.target instanceof Node && ref.current.contains(e.target)) return
+      onClose()
+    }
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    window.addEventListener('pointerdown', onPointerDown)
+    window.addEventListener('keydown', onKeyDown)
+    window.addEventListener('blur', onClose)
+    window.addEventListener('resize', onClose)
+    return () => {
+      window.removeEventListener('pointerdown', onPointerDown)
+      window.removeEventListener('keydown', onKeyDown)
+      window.removeEventListener('blur', onClose)
+      window.removeEventListener('resize', onClose)
+    }
+  }, [position, onClose])
+
+  // Keep the menu inside the viewport.
+  React.useLayoutEffect(() => {
+    if (!position || !ref.current) {
+      setAdjusted(null)
+      return
+    }
+    const rect = ref.current.getBoundingClientRect()
+    const x = Math.max(4, Math.min(position.x, window.innerWidth - rect.width - 4))
+    const y = Math.max(4, Math.min(position.y, window.innerHeight - rect.height - 4))
+    setAdjusted({ x, y })
+  }, [position, items])
+
+  if (!position) return null
+
+  const at = adjusted ?? position
+
+  return (
+    <div
+      ref={ref}
+      role="menu"
+      className="fixed z-50 min-w-[12rem] overflow-hidden rounded-md border border-border bg-popover p-1 text-popover-foreground shadow-md animate-in fade-in-0 zoom-in-95"
+      style={{ left: at.x, top: at.y }}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      {items.map((item, i) => {
+        if ('separator' in item) return <div key={i} className="-mx-1 my-1 h-px bg-border" />
+        if ('heading' in item) {
+          return (
+            <div key={i} className="px-2 py-1.5 text-xs font-semibold text-muted-foreground truncate">
+              {item.heading}
+            </div>
+          )
+        }
+        return (
+          <button
+            key={i}
+            role="menuitem"
+            disabled={item.disabled}
+            className={cn(
+              'flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm outline-none transition-colors hover:bg-accent hover:text-accent-foreground focus:bg-accent disabled:pointer-events-none disabled:opacity-50 [&_svg]:size-4 [&_svg]:shrink-0',
+              item.destructive && 'text-destructive hover:text-destructive'
+            )}
+            onClick={() => {
+              onClose()
+              item.onSelect()
+            }}
+          >
+            {item.icon}
+            <span className="flex-1 truncate">{item.label}</span>
+          </button>
+        )
+      })}
+    </div>
+  )
+}
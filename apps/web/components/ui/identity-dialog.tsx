@@ -0,0 +1,178 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Button } from './button'
+import { Input } from './input'
+import { Label } from './label'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './dialog'
+import {
+  deleteIdentity,
+  exportPkcs12,
+  generateIdentity,
+  getIdentity,
+  importPkcs12,
+  listIdentities,
+  saveIdentity,
+  type IdentityInfo
+} from '../../src/identity/certificates'
+import { Download, Loader2, Plus, Trash2, Upload } from 'lucide-react'
+
+interface IdentityDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  defaultName: string
+  // Called whenever the stored identities change; `selectId` is set for a newly created identity.
+  onIdentitiesChange: (identities: IdentityInfo[], selectId?: string) => void
+}
+
+function formatFingerprint(hex: string): string {
+  return hex.match(/.{1,2}/g)?.join(':') ?? hex
+}
+
+export function IdentityDialog({ open, onOpenChange, defaultName, onIdentitiesChange }: IdentityDialogProps) {
+  const [identities, setIdentities] = useState<IdentityInfo[]>([])
+  const [name, setName] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const refresh = async (selectId?: string) => {
+    const list = await listIdentities()
+    setIdentities(list)
+    onIdentitiesChange(list, selectId)
+  }
+
+  useEffect(() => {
+    if (!open) return
+    setName(defaultName)
+    setError(null)
+    refresh().catch((err) => setError(err instanceof Error ? err.message : String(err)))
+    // Only reload when the dialog opens.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open])
+
+  const run = async (fn: () => Promise<void>) => {
+    setBusy(true)
+    setError(null)
+    try {
+      await fn()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleGenerate = () =>
+    run(async () => {
+      const identity = await generateIdentity(name.trim())
+      await saveIdentity(identity)
+      await refresh(identity.id)
+    })
+
+  const handleImport = (file: File) =>
+    run(async () => {
+      const passphrase = window.prompt(`Passphrase for ${file.name}`, '') ?? ''
+      const identity = importPkcs12(await file.arrayBuffer(), passphrase)
+      await saveIdentity(identity)
+      await refresh(identity.id)
+    })
+
+  const handleExport = (info: IdentityInfo) =>
+    run(async () => {
+      const identity = await getIdentity(info.id)
+      if (!identity) throw new Error('Identity not found')
+      const passphrase = window.prompt('Passphrase to protect the exported file (may be empty)', '')
+      if (passphrase == null) return
+      const bytes = exportPkcs12(identity, passphrase)
+      const url = URL.createObjectURL(new Blob([bytes as BlobPart], { type: 'application/x-pkcs12' }))
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `${identity.name || 'identity'}.p12`
+      a.click()
+      URL.revokeObjectURL(url)
+    })
+
+  const handleDelete = (info: IdentityInfo) => {
+    if (!window.confirm(`Delete identity "${info.name}"? Servers will no longer recognise you as this user unless you exported it.`)) return
+    void run(async () => {
+      await deleteIdentity(info.id)
+      await refresh()
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Certificates</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-xs text-muted-foreground">
+            A client certificate lets the server recognise you across sessions (needed to register and to keep ACL groups). Certificates are stored in this browser only.
+          </p>
+
+          {identities.length > 0 && (
+            <ul className="divide-y divide-border rounded-md border border-border">
+              {identities.map((id) => (
+                <li key={id.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                  <div className="flex-1 overflow-hidden">
+                    <div className="truncate font-medium">{id.name}</div>
+                    <div className="truncate font-mono text-[10px] text-muted-foreground" title={formatFingerprint(id.fingerprint)}>
+                      {formatFingerprint(id.fingerprint)}
+                    </div>
+                  </div>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" title="Export .p12" disabled={busy} onClick={() => handleExport(id)}>
+                    <Download className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-destructive" title="Delete" disabled={busy} onClick={() => handleDelete(id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form
+            className="space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault()
+              if (name.trim()) void handleGenerate()
+            }}
+          >
+            <Label htmlFor="identity-name">New certificate</Label>
+            <div className="flex gap-2">
+              <Input id="identity-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Name (certificate CN)" />
+              <Button type="submit" disabled={busy || !name.trim()}>
+                {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                Generate
+              </Button>
+            </div>
+          </form>
+
+          <div className="flex items-center justify-between gap-3">
+            <div className="text-xs text-muted-foreground">Import a certificate exported from the Mumble desktop client.</div>
+            <Button variant="outline" size="sm" disabled={busy} onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4" />
+              Import .p12
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".p12,.pfx,application/x-pkcs12"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                e.target.value = ''
+                if (file) void handleImport(file)
+              }}
+            />
+          </div>
+
+          {error && <div className="rounded-md bg-destructive/10 p-2 text-xs text-destructive">{error}</div>}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,72 @@
+'use client'
+
+import * as React from 'react'
+import { cn } from '@/lib/utils'
+
+interface PopoverProps {
+  position: { x: number; y: number } | null
+  onClose: () => void
+  label: string
+  className?: string
+  children: React.ReactNode
+}
+
+// Floating panel anchored at a point, closed by clicking outside or Escape (like ContextMenu).
+export function Popover({ position, onClose, label, className, children }: PopoverProps) {
+  const ref = React.useRef<HTMLDivElement>(null)
+  const [adjusted, setAdjusted] = React.useState<{ x: number; y: number } | null>(null)
+
+  React.useEffect(() => {
+    if (!position) return
+    const onPointerDown = (e: PointerEvent) => {
+      if (ref.current && e.target instanceof Node && ref.current.contains(e.target)) return
+      onClose()
+    }
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    window.addEventListener('pointerdown', onPointerDown)
+    window.addEventListener('keydown', onKeyDown)
+    window.addEventListener('resize', onClose)
+    return () => {
+      window.removeEventListener('pointerdown', onPointerDown)
+      window.removeEventListener('keydown', onKeyDown)
+      window.removeEventListener('resize', onClose)
+    }
+  }, [position, onClose])
+
+  // Keep the panel inside the viewport, also when its content grows after opening.
+  React.useLayoutEffect(() => {
+    const el = ref.current
+    if (!position || !el) {
+      setAdjusted(null)
+      return
+    }
+    const place = () => {
+      const rect = el.getBoundingClientRect()
+      const x = Math.max(4, Math.min(position.x, window.innerWidth - rect.width - 4))
+      const y = Math.max(4, Math.min(position.y, window.innerHeight - rect.height - 4))
+      setAdjusted((cur) => (cur && cur.x === x && cur.y === y ? cur : { x, y }))
+    }
+    place()
+    const observer = new ResizeObserver(place)
+    observer.observe(el)
+    return () => observer.disconnect()
+  }, [position])
+
+  if (!position) return null
+
+  const at = adjusted ?? position
+
+  return (
+    <div
+      ref={ref}
+      role="dialog"
+      aria-label={label}
+      className={cn('fixed z-50 rounded-md border border-border bg-popover p-3 text-popover-foreground shadow-md animate-in fade-in-0 zoom-in-95', className)}
+      style={{ left: at.x, top: at.y }}
+    >
+      {children}
+    </div>
+  )
+}
@@ -0,0 +1,133 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Button } from './button'
+import { Label } from './label'
+import { UserAvatar } from './user-avatar'
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from './dialog'
+import { useGatewayStore } from '../../src/state/gateway-store'
+import { ImagePlus, Trash2 } from 'lucide-react'
+
+interface ProfileDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function ProfileDialog({ open, onOpenChange }: ProfileDialogProps) {
+  const { usersById, avatarsByUserId, selfUserId, requestUserComment, setSelfComment, setSelfAvatar } = useGatewayStore()
+  const self = selfUserId != null ? usersById[selfUserId] : undefined
+
+  const [comment, setComment] = useState('')
+  const [commentTouched, setCommentTouched] = useState(false)
+  // undefined: keep the current avatar, null: remove it
+  const [avatar, setAvatar] = useState<Blob | null | undefined>(undefined)
+  const [preview, setPreview] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const fileRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setCommentTouched(false)
+    setAvatar(undefined)
+    setError(null)
+    if (selfUserId != null) requestUserComment(selfUserId)
+  }, [open, selfUserId, requestUserComment])
+
+  // A long comment arrives after the dialog opens; fill it in unless the user already started typing.
+  useEffect(() => {
+    if (open && !commentTouched) setComment(self?.comment ?? '')
+  }, [open, commentTouched, self?.comment])
+
+  useEffect(() => {
+    if (!avatar) {
+      setPreview(null)
+      return
+    }
+    const url = URL.createObjectURL(avatar)
+    setPreview(url)
+    return () => URL.revokeObjectURL(url)
+  }, [avatar])
+
+  if (!self) return null
+
+  const currentAvatar = avatar === undefined ? avatarsByUserId[self.id] : (preview ?? undefined)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit profile</DialogTitle>
+        </DialogHeader>
+
+        <form
+          className="space-y-4"
+          onSubmit={async (e) => {
+            e.preventDefault()
+            setSaving(true)
+            setError(null)
+            try {
+              if (commentTouched && comment !== (self.comment ?? '')) setSelfComment(comment)
+              if (avatar !== undefined) await setSelfAvatar(avatar)
+              onOpenChange(false)
+            } catch (err) {
+              setError(err instanceof Error ? err.message : 'Failed to update avatar')
+            } finally {
+              setSaving(false)
+            }
+          }}
+        >
+          <div className="flex items-center gap-4">
+            <UserAvatar name={self.name} src={currentAvatar} className="h-20 w-20 text-xl" />
+            <div className="flex flex-col gap-2">
+              <input
+                ref={fileRef}
+                type="file"
+                accept="image/png,image/jpeg,image/gif,image/webp"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  e.target.value = ''
+                  if (file) setAvatar(file)
+                }}
+              />
+              <Button type="button" size="sm" variant="outline" onClick={() => fileRef.current?.click()}>
+                <ImagePlus className="h-4 w-4" />
+                Choose image…
+              </Button>
+              <Button type="button" size="sm" variant="ghost" disabled={!currentAvatar} onClick={() => setAvatar(null)}>
+                <Trash2 className="h-4 w-4" />
+                Remove avatar
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="profile-comment">Comment</Label>
+            <textarea
+              id="profile-comment"
+              className="flex min-h-[120px] w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+              value={comment}
+              onChange={(e) => {
+                setComment(e.target.value)
+                setCommentTouched(true)
+              }}
+              placeholder="Shown to other users (HTML allowed)"
+            />
+          </div>
+
+          {error && <p className="rounded-md bg-destructive/10 p-2 text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="secondary" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
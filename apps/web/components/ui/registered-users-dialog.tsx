@@ -0,0 +1,132 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Button } from './button'
+import { Input } from './input'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './dialog'
+import { useGatewayStore } from '../../src/state/gateway-store'
+import { Loader2, Pencil, Search, Trash2 } from 'lucide-react'
+
+interface RegisteredUsersDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Server dates are UTC ISO strings without a zone.
+function formatLastSeen(lastSeen: string | undefined): string {
+  if (!lastSeen) return '-'
+  const d = new Date(/[zZ]$/.test(lastSeen) ? lastSeen : `${lastSeen}Z`)
+  return Number.isNaN(d.getTime()) ? lastSeen : d.toLocaleString()
+}
+
+export function RegisteredUsersDialog({ open, onOpenChange }: RegisteredUsersDialogProps) {
+  const { registeredUsers, channelsById, usersById, queryUserList, renameRegisteredUser, unregisterUser } = useGatewayStore()
+
+  const [query, setQuery] = useState('')
+
+  useEffect(() => {
+    setQuery('')
+    if (open) queryUserList()
+  }, [open, queryUserList])
+
+  const onlineIds = useMemo(() => {
+    const ids = new Set<number>()
+    for (const u of Object.values(usersById)) {
+      if (u.registeredId != null) ids.add(u.registeredId)
+    }
+    return ids
+  }, [usersById])
+
+  const rows = useMemo(() => {
+    const q = query.trim().toLowerCase()
+    return (registeredUsers ?? [])
+      .filter((u) => !q || u.name.toLowerCase().includes(q) || String(u.userId) === q)
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }, [registeredUsers, query])
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Registered users</DialogTitle>
+        </DialogHeader>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input className="pl-9" value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search by name or id" />
+        </div>
+
+        {!registeredUsers ? (
+          <div className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading users…
+          </div>
+        ) : (
+          <div className="overflow-x-auto rounded-md border border-border">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50 text-xs text-muted-foreground">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium">Name</th>
+                  <th className="px-3 py-2 text-left font-medium">Id</th>
+                  <th className="px-3 py-2 text-left font-medium">Last seen</th>
+                  <th className="px-3 py-2 text-left font-medium">Last channel</th>
+                  <th className="w-20" />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-3 py-4 text-center text-xs text-muted-foreground">
+                      {registeredUsers.length ? 'No matching users.' : 'No registered users.'}
+                    </td>
+                  </tr>
+                )}
+                {rows.map((u) => (
+                  <tr key={u.userId} className="border-t border-border/50">
+                    <td className="px-3 py-1.5 font-medium">
+                      {u.name}
+                      {onlineIds.has(u.userId) && <span className="ml-2 text-[10px] uppercase text-green-500">online</span>}
+                    </td>
+                    <td className="px-3 py-1.5 font-mono text-xs">{u.userId}</td>
+                    <td className="px-3 py-1.5 whitespace-nowrap text-xs">{onlineIds.has(u.userId) ? 'Now' : formatLastSeen(u.lastSeen)}</td>
+                    <td className="px-3 py-1.5 text-xs">
+                      {u.lastChannelId != null ? channelsById[u.lastChannelId]?.name || `#${u.lastChannelId}` : '-'}
+                    </td>
+                    <td className="px-1 whitespace-nowrap text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-muted-foreground hover:text-foreground"
+                        title="Rename"
+                        onClick={() => {
+                          const name = window.prompt(`Rename "${u.name}" to:`, u.name)?.trim()
+                          if (!name || name === u.name) return
+                          renameRegisteredUser(u.userId, name)
+                        }}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                        title={u.userId === 0 ? 'SuperUser cannot be unregistered' : 'Unregister'}
+                        disabled={u.userId === 0}
+                        onClick={() => {
+                          if (!window.confirm(`Unregister "${u.name}"? Their account, comment and avatar are deleted.`)) return
+                          unregisterUser(u.userId)
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
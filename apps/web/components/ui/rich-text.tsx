@@ -0,0 +1,26 @@
+'use client'
+
+import { memo, useMemo } from 'react'
+import { cn } from '@/lib/utils'
+import { sanitizeHtml } from '../../src/ui/sanitize-html'
+
+interface RichTextProps {
+  html: string
+  maxImageLength?: number | null | undefined
+  className?: string
+}
+
+// Chat messages are HTML from other users; they are sanitized once per message rather than on every render.
+export const RichText = memo(function RichText({ html, maxImageLength, className }: RichTextProps) {
+  const clean = useMemo(() => sanitizeHtml(html, { linkify: true, maxImageLength: maxImageLength ?? null }), [html, maxImageLength])
+  return (
+    <div
+      className={cn(
+        'break-words [&_a]:underline [&_img]:max-h-80 [&_img]:max-w-full [&_img]:rounded [&_p]:my-0',
+        '[&_ul]:list-disc [&_ul]:pl-5 [&_ol]:list-decimal [&_ol]:pl-5 [&_pre]:whitespace-pre-wrap [&_pre]:font-mono [&_code]:font-mono [&_blockquote]:border-l-2 [&_blockquote]:pl-2',
+        className
+      )}
+      dangerouslySetInnerHTML={{ __html: clean }}
+    />
+  )
+})
@@ -3,7 +3,7 @@
 import { useEffect, useState } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from './card'
 import { Input } from './input'
-import { useGatewayStore } from '../../src/state/gateway-store'
+import { OPUS_FRAME_DURATIONS, useGatewayStore, type OpusFrameDuration } from '../../src/state/gateway-store'
 import { Mic, Shield, Wifi, AudioWaveform } from 'lucide-react'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from './dialog'
 
@@ -27,6 +27,12 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
     setVadHoldTimeMs,
     opusBitrate,
     setOpusBitrate,
+    opusChannels,
+    setOpusChannels,
+    opusFrameMs,
+    setOpusFrameMs,
+    opusBackend,
+    setOpusBackend,
     uplinkCongestionControlEnabled,
     setUplinkCongestionControlEnabled,
     uplinkMaxBufferedAmountBytes,
@@ -39,6 +45,8 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
     setMicAutoGainControl,
     rnnoiseEnabled,
     setRnnoiseEnabled,
+    spatialAudioEnabled,
+    setSpatialAudioEnabled,
     selectedInputDeviceId,
     setSelectedInputDeviceId,
   } = useGatewayStore()
@@ -194,6 +202,70 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
                 />
               </div>
 
+              <div className="flex items-center justify-between gap-3">
+                <div className="space-y-1">
+                  <div className="text-sm font-medium">Channels</div>
+                  <div className="text-xs text-muted-foreground">Stereo is for music; turn off echo cancellation so the browser keeps both channels.</div>
+                </div>
+                <select
+                  className="h-9 w-28 px-3 rounded-md border border-input bg-background text-sm"
+                  value={opusChannels}
+                  onChange={(e) => setOpusChannels(e.target.value === '2' ? 2 : 1)}
+                >
+                  <option value={1}>Mono</option>
+                  <option value={2}>Stereo</option>
+                </select>
+              </div>
+
+              <div className="flex items-center justify-between gap-3">
+                <div className="space-y-1">
+                  <div className="text-sm font-medium">Frame size</div>
+                  <div className="text-xs text-muted-foreground">Shorter frames lower latency; longer frames save bandwidth.</div>
+                </div>
+                <select
+                  className="h-9 w-28 px-3 rounded-md border border-input bg-background text-sm"
+                  value={opusFrameMs}
+                  onChange={(e) => setOpusFrameMs(Number(e.target.value) as OpusFrameDuration)}
+                >
+                  {OPUS_FRAME_DURATIONS.map((ms) => (
+                    <option key={ms} value={ms}>
+                      {ms} ms
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex items-center justify-between gap-3">
+                <div className="space-y-1">
+                  <div className="text-sm font-medium">Opus codec</div>
+                  <div className="text-xs text-muted-foreground">Auto uses WebCodecs and falls back to WASM libopus where it is missing.</div>
+                </div>
+                <select
+                  className="h-9 w-28 px-3 rounded-md border border-input bg-background text-sm"
+                  value={opusBackend}
+                  onChange={(e) => setOpusBackend(e.target.value === 'webcodecs' || e.target.value === 'wasm' ? e.target.value : 'auto')}
+                >
+                  <option value="auto">Auto</option>
+                  <option value="webcodecs">WebCodecs</option>
+                  <option value="wasm">WASM</option>
+                </select>
+              </div>
+
+              <label className="flex items-start gap-3">
+                <input
+                  type="checkbox"
+                  className="mt-1 h-4 w-4 accent-primary"
+                  checked={spatialAudioEnabled}
+                  onChange={(e) => setSpatialAudioEnabled(e.target.checked)}
+                />
+                <div className="space-y-1">
+                  <div className="text-sm font-medium">Positional audio</div>
+                  <div className="text-xs text-muted-foreground">
+                    Places users who send a position (e.g. from a game plugin) around you. Best with headphones.
+                  </div>
+                </div>
+              </label>
+
               <div className="h-px bg-border" />
 
               <div className="space-y-3">
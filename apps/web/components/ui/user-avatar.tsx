@@ -0,0 +1,18 @@
+'use client'
+
+import { cn } from '@/lib/utils'
+
+interface UserAvatarProps {
+  name: string
+  src?: string | undefined
+  className?: string
+}
+
+// Falls back to the first letters of the name until (or unless) the user's texture has been fetched.
+export function UserAvatar({ name, src, className }: UserAvatarProps) {
+  return (
+    <div className={cn('flex h-8 w-8 shrink-0 items-center justify-center overflow-hidden rounded-full bg-accent/50 text-xs font-medium uppercase', className)}>
+      {src ? <img src={src} alt="" className="h-full w-full object-cover" /> : name.slice(0, 2)}
+    </div>
+  )
+}
@@ -0,0 +1,73 @@
+'use client'
+
+import * as React from 'react'
+import { Button } from './button'
+import { Popover } from './popover'
+import { UserAvatar } from './user-avatar'
+import { useGatewayStore } from '../../src/state/gateway-store'
+import { sanitizeHtml } from '../../src/ui/sanitize-html'
+import { BadgeCheck, Loader2, Pencil } from 'lucide-react'
+
+interface UserProfilePopoverProps {
+  target: { userId: number; x: number; y: number } | null
+  onClose: () => void
+  onEditProfile: () => void
+}
+
+export function UserProfilePopover({ target, onClose, onEditProfile }: UserProfilePopoverProps) {
+  const { usersById, avatarsByUserId, channelsById, selfUserId, requestUserComment } = useGatewayStore()
+  const user = target ? usersById[target.userId] : undefined
+  const commentHtml = React.useMemo(() => (user?.comment ? sanitizeHtml(user.comment) : ''), [user?.comment])
+  const commentPending = user != null && user.comment == null && user.commentHash != null
+
+  React.useEffect(() => {
+    if (target) requestUserComment(target.userId)
+  }, [target, user?.commentHash, requestUserComment])
+
+  if (!target || !user) return null
+
+  const channel = user.channelId != null ? channelsById[user.channelId] : undefined
+
+  return (
+    <Popover position={target} onClose={onClose} label={`Profile of ${user.name}`} className="w-72">
+      <div className="flex items-center gap-3">
+        <UserAvatar name={user.name} src={avatarsByUserId[user.id]} className="h-14 w-14 text-base" />
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-1 font-medium">
+            <span className="truncate">{user.name}</span>
+            {user.registeredId != null && <BadgeCheck className="h-3.5 w-3.5 shrink-0 text-primary" aria-label="Registered" />}
+          </div>
+          {channel && <div className="truncate text-xs text-muted-foreground">in {channel.name || 'Root'}</div>}
+        </div>
+      </div>
+
+      <div className="mt-3 max-h-64 overflow-y-auto border-t border-border pt-2 text-sm">
+        {commentPending ? (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            Loading comment…
+          </div>
+        ) : commentHtml ? (
+          <div className="break-words [&_a]:text-primary [&_a]:underline [&_img]:max-w-full [&_li]:ml-4 [&_ol]:list-decimal [&_ul]:list-disc" dangerouslySetInnerHTML={{ __html: commentHtml }} />
+        ) : (
+          <div className="text-xs text-muted-foreground">No comment.</div>
+        )}
+      </div>
+
+      {user.id === selfUserId && (
+        <Button
+          size="sm"
+          variant="outline"
+          className="mt-3 w-full"
+          onClick={() => {
+            onClose()
+            onEditProfile()
+          }}
+        >
+          <Pencil className="h-4 w-4" />
+          Edit profile
+        </Button>
+      )}
+    </Popover>
+  )
+}
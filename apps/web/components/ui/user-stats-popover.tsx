@@ -0,0 +1,121 @@
+'use client'
+
+import * as React from 'react'
+import { Popover } from './popover'
+import { useGatewayStore, type PacketStats } from '../../src/state/gateway-store'
+import { Loader2 } from 'lucide-react'
+
+interface UserStatsPopoverProps {
+  target: { userId: number; x: number; y: number } | null
+  onClose: () => void
+}
+
+const REFRESH_INTERVAL_MS = 3000
+
+function formatPing(avg: number | undefined, variance: number | undefined): string {
+  if (avg == null) return '-'
+  const dev = variance != null ? Math.sqrt(variance) : null
+  return dev != null ? `${avg.toFixed(1)} ms (±${dev.toFixed(1)})` : `${avg.toFixed(1)} ms`
+}
+
+function formatDuration(seconds: number | undefined): string {
+  if (seconds == null) return '-'
+  const d = Math.floor(seconds / 86400)
+  const h = Math.floor((seconds % 86400) / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  const s = seconds % 60
+  if (d) return `${d}d ${h}h`
+  if (h) return `${h}h ${m}m`
+  if (m) return `${m}m ${s}s`
+  return `${s}s`
+}
+
+function lossPercent(p: PacketStats | undefined): string {
+  if (!p) return '-'
+  const total = p.good + p.late + p.lost
+  return total ? `${((p.lost / total) * 100).toFixed(1)}%` : '0%'
+}
+
+function Row({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div className="flex justify-between gap-3">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="truncate text-right font-mono">{value}</span>
+    </div>
+  )
+}
+
+export function UserStatsPopover({ target, onClose }: UserStatsPopoverProps) {
+  const { usersById, userStats, queryUserStats } = useGatewayStore()
+
+  const userId = target?.userId
+  const user = userId != null ? usersById[userId] : undefined
+
+  // Full query once (client details), then cheaper stats-only refreshes while the popover is open.
+  React.useEffect(() => {
+    if (userId == null) return
+    queryUserStats(userId)
+    const id = window.setInterval(() => queryUserStats(userId, true), REFRESH_INTERVAL_MS)
+    return () => window.clearInterval(id)
+  }, [userId, queryUserStats])
+
+  if (!target || !user) return null
+
+  const stats = userStats?.userId === user.id ? userStats : null
+
+  return (
+    <Popover position={target} onClose={onClose} label={`Statistics of ${user.name}`} className="w-80 text-xs">
+      <div className="mb-2 truncate text-sm font-medium">{user.name}</div>
+      {!stats ? (
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          Loading statistics…
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Row label="UDP ping" value={formatPing(stats.udpPingAvg, stats.udpPingVar)} />
+            <Row label="TCP ping" value={formatPing(stats.tcpPingAvg, stats.tcpPingVar)} />
+            <Row label="Packets (UDP / TCP)" value={`${stats.udpPackets ?? 0} / ${stats.tcpPackets ?? 0}`} />
+            <Row label="Bandwidth" value={stats.bandwidth != null ? `${((stats.bandwidth * 8) / 1000).toFixed(1)} kbit/s` : '-'} />
+          </div>
+
+          <table className="w-full border-t border-border pt-2 font-mono">
+            <thead className="text-muted-foreground">
+              <tr>
+                <th className="py-1 text-left font-sans font-normal" />
+                <th className="py-1 text-right font-normal">Good</th>
+                <th className="py-1 text-right font-normal">Late</th>
+                <th className="py-1 text-right font-normal">Lost</th>
+                <th className="py-1 text-right font-normal">Resync</th>
+                <th className="py-1 text-right font-normal">Loss</th>
+              </tr>
+            </thead>
+            <tbody>
+              {([['From client', stats.fromClient], ['To client', stats.fromServer]] as const).map(([label, p]) => (
+                <tr key={label}>
+                  <td className="py-0.5 font-sans text-muted-foreground">{label}</td>
+                  <td className="py-0.5 text-right">{p?.good ?? '-'}</td>
+                  <td className="py-0.5 text-right">{p?.late ?? '-'}</td>
+                  <td className="py-0.5 text-right">{p?.lost ?? '-'}</td>
+                  <td className="py-0.5 text-right">{p?.resync ?? '-'}</td>
+                  <td className="py-0.5 text-right">{lossPercent(p)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="space-y-1 border-t border-border pt-2">
+            <Row label="Version" value={stats.version ? `${stats.version}${stats.release && stats.release !== stats.version ? ` (${stats.release})` : ''}` : '-'} />
+            <Row label="OS" value={stats.os ? `${stats.os}${stats.osVersion ? ` ${stats.osVersion}` : ''}` : '-'} />
+            <Row label="Opus" value={stats.opus == null ? '-' : stats.opus ? 'Yes' : 'No'} />
+            <Row label="Strong certificate" value={stats.strongCertificate == null ? '-' : stats.strongCertificate ? 'Yes' : 'No'} />
+            {stats.address && <Row label="Address" value={stats.address} />}
+            <Row label="Online" value={formatDuration(stats.onlineSecs)} />
+            <Row label="Idle" value={formatDuration(stats.idleSecs)} />
+          </div>
+        </div>
+      )}
+    </Popover>
+  )
+}
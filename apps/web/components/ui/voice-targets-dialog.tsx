@@ -0,0 +1,217 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Button } from './button'
+import { Input } from './input'
+import { Label } from './label'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './dialog'
+import { useGatewayStore, type VoiceTargetConfig } from '../../src/state/gateway-store'
+import { Keyboard, Plus, Trash2 } from 'lucide-react'
+import { cn } from '../../src/ui/cn'
+
+interface VoiceTargetsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+function emptyTarget(id: number): VoiceTargetConfig {
+  return { id, name: `Target ${id}`, kind: 'whisper', userNames: [], channelId: null, links: false, children: false, key: null }
+}
+
+export function VoiceTargetsDialog({ open, onOpenChange }: VoiceTargetsDialogProps) {
+  const { voiceTargets, saveVoiceTarget, removeVoiceTarget, usersById, channelsById, selfUserId } = useGatewayStore()
+
+  const [editing, setEditing] = useState<VoiceTargetConfig | null>(null)
+  const [capturingKey, setCapturingKey] = useState(false)
+
+  useEffect(() => {
+    if (!open) {
+      setEditing(null)
+      setCapturingKey(false)
+    }
+  }, [open])
+
+  useEffect(() => {
+    if (!capturingKey) return
+    const onKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault()
+      e.stopPropagation()
+      setCapturingKey(false)
+      if (e.code === 'Escape') return
+      setEditing((cur) => (cur ? { ...cur, key: e.code === 'Backspace' ? null : e.code } : cur))
+    }
+    window.addEventListener('keydown', onKeyDown, true)
+    return () => window.removeEventListener('keydown', onKeyDown, true)
+  }, [capturingKey])
+
+  const nextFreeId = useMemo(() => {
+    const used = new Set(voiceTargets.map((t) => t.id))
+    for (let id = 1; id <= 30; id++) {
+      if (!used.has(id)) return id
+    }
+    return null
+  }, [voiceTargets])
+
+  // Offer online users plus anyone already in the target who is currently offline.
+  const userNames = useMemo(() => {
+    const names = new Set<string>()
+    for (const u of Object.values(usersById)) {
+      if (u.id !== selfUserId && u.name) names.add(u.name)
+    }
+    for (const n of editing?.userNames ?? []) names.add(n)
+    return [...names].sort((a, b) => a.localeCompare(b))
+  }, [usersById, selfUserId, editing?.userNames])
+
+  const channels = useMemo(() => Object.values(channelsById).sort((a, b) => a.name.localeCompare(b.name)), [channelsById])
+
+  const canSave =
+    editing != null &&
+    Boolean(editing.name.trim()) &&
+    (editing.kind === 'whisper' ? editing.userNames.length > 0 : editing.channelId != null)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Whisper &amp; Shout</DialogTitle>
+        </DialogHeader>
+
+        {!editing ? (
+          <div className="space-y-3">
+            {voiceTargets.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No targets yet. Whisper talks to selected users only; shout talks to a channel (and optionally its linked channels and subchannels).
+              </p>
+            ) : (
+              <ul className="divide-y divide-border rounded-md border border-border">
+                {voiceTargets.map((t) => (
+                  <li key={t.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                    <div className="flex-1 overflow-hidden">
+                      <div className="truncate font-medium">{t.name}</div>
+                      <div className="truncate text-xs text-muted-foreground">
+                        {t.kind === 'whisper'
+                          ? `Whisper: ${t.userNames.join(', ')}`
+                          : `Shout: ${t.channelId != null ? channelsById[t.channelId]?.name ?? `#${t.channelId}` : '-'}${t.links ? ' + links' : ''}${t.children ? ' + subchannels' : ''}`}
+                      </div>
+                    </div>
+                    {t.key && <kbd className="rounded border border-border bg-muted px-1.5 py-0.5 font-mono text-[10px]">{t.key}</kbd>}
+                    <Button variant="ghost" size="sm" onClick={() => setEditing({ ...t })}>
+                      Edit
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-destructive" title="Remove" onClick={() => removeVoiceTarget(t.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <Button size="sm" disabled={nextFreeId == null} onClick={() => nextFreeId != null && setEditing(emptyTarget(nextFreeId))}>
+              <Plus className="h-4 w-4" />
+              Add target
+            </Button>
+          </div>
+        ) : (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault()
+              if (!canSave) return
+              saveVoiceTarget({ ...editing, name: editing.name.trim() })
+              setEditing(null)
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="voice-target-name">Name</Label>
+              <Input id="voice-target-name" value={editing.name} onChange={(e) => setEditing({ ...editing, name: e.target.value })} />
+            </div>
+
+            <div className="flex rounded-md border border-input p-0.5 w-fit">
+              {(['whisper', 'shout'] as const).map((kind) => (
+                <button
+                  key={kind}
+                  type="button"
+                  onClick={() => setEditing({ ...editing, kind })}
+                  className={cn('px-3 py-1 text-xs font-medium rounded-sm capitalize transition-colors', editing.kind === kind ? 'bg-primary text-primary-foreground' : 'hover:bg-accent')}
+                >
+                  {kind}
+                </button>
+              ))}
+            </div>
+
+            {editing.kind === 'whisper' ? (
+              <div className="space-y-2">
+                <Label>Users</Label>
+                <div className="max-h-48 overflow-y-auto rounded-md border border-border p-2 space-y-1">
+                  {userNames.length === 0 && <div className="text-xs text-muted-foreground">No other users online.</div>}
+                  {userNames.map((name) => (
+                    <label key={name} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 accent-primary"
+                        checked={editing.userNames.includes(name)}
+                        onChange={(e) =>
+                          setEditing({
+                            ...editing,
+                            userNames: e.target.checked ? [...editing.userNames, name] : editing.userNames.filter((n) => n !== name)
+                          })
+                        }
+                      />
+                      {name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <div className="space-y-2">
+                  <Label htmlFor="voice-target-channel">Channel</Label>
+                  <select
+                    id="voice-target-channel"
+                    className="w-full h-9 px-3 rounded-md border border-input bg-background text-sm"
+                    value={editing.channelId ?? ''}
+                    onChange={(e) => setEditing({ ...editing, channelId: e.target.value === '' ? null : Number(e.target.value) })}
+                  >
+                    <option value="">Select a channel…</option>
+                    {channels.map((ch) => (
+                      <option key={ch.id} value={ch.id}>
+                        {ch.name || '(unnamed)'}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <label className="flex items-center gap-2 text-sm">
+                  <input type="checkbox" className="h-4 w-4 accent-primary" checked={editing.links} onChange={(e) => setEditing({ ...editing, links: e.target.checked })} />
+                  Include linked channels
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <input type="checkbox" className="h-4 w-4 accent-primary" checked={editing.children} onChange={(e) => setEditing({ ...editing, children: e.target.checked })} />
+                  Include subchannels
+                </label>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between gap-3">
+              <div className="space-y-1">
+                <div className="text-sm font-medium">Push-to-talk key</div>
+                <div className="text-xs text-muted-foreground">Hold to talk to this target. Backspace clears, Escape cancels.</div>
+              </div>
+              <Button type="button" variant={capturingKey ? 'default' : 'outline'} size="sm" onClick={() => setCapturingKey((v) => !v)}>
+                <Keyboard className="h-4 w-4" />
+                {capturingKey ? 'Press a key…' : editing.key ?? 'Not bound'}
+              </Button>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="secondary" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!canSave}>
+                Save
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -8,8 +8,10 @@ class MumbleCaptureProcessor extends AudioWorkletProcessor {
     this._vadThreshold = 0.02
     this._hangoverFrames = 5
     this._frameSize = 960
+    // 1 = mono (inputs are mixed down), 2 = interleaved stereo.
+    this._channels = 1
 
-    this._frameBuffer = new Float32Array(this._frameSize)
+    this._frameBuffer = new Float32Array(this._frameSize * this._channels)
     this._frameWrite = 0
 
     this._sending = false
@@ -25,9 +27,12 @@ class MumbleCaptureProcessor extends AudioWorkletProcessor {
       if (typeof msg.pttActive === 'boolean') this._pttActive = msg.pttActive
       if (typeof msg.vadThreshold === 'number') this._vadThreshold = msg.vadThreshold
       if (typeof msg.hangoverFrames === 'number') this._hangoverFrames = msg.hangoverFrames
-      if (typeof msg.frameSize === 'number' && msg.frameSize > 0 && msg.frameSize <= 2880) {
-        this._frameSize = msg.frameSize | 0
-        this._frameBuffer = new Float32Array(this._frameSize)
+      const frameSize = typeof msg.frameSize === 'number' && msg.frameSize > 0 && msg.frameSize <= 2880 ? msg.frameSize | 0 : this._frameSize
+      const channels = msg.channels === 1 || msg.channels === 2 ? msg.channels : this._channels
+      if (frameSize !== this._frameSize || channels !== this._channels) {
+        this._frameSize = frameSize
+        this._channels = channels
+        this._frameBuffer = new Float32Array(this._frameSize * this._channels)
         this._frameWrite = 0
       }
     }
@@ -63,25 +68,32 @@ class MumbleCaptureProcessor extends AudioWorkletProcessor {
 
     const channels = input.length
     const frames = input[0].length
+    const samplesPerFrame = this._frameSize * this._channels
 
     for (let i = 0; i < frames; i++) {
-      let s = 0
-      for (let ch = 0; ch < channels; ch++) {
-        s += input[ch][i] ?? 0
+      if (this._channels === 2) {
+        const left = input[0][i] ?? 0
+        this._frameBuffer[this._frameWrite++] = left
+        this._frameBuffer[this._frameWrite++] = channels >= 2 ? input[1][i] ?? left : left
+      } else {
+        let s = 0
+        for (let ch = 0; ch < channels; ch++) {
+          s += input[ch][i] ?? 0
+        }
+        this._frameBuffer[this._frameWrite++] = s / channels
       }
-      s /= channels
 
-      this._frameBuffer[this._frameWrite++] = s
-      if (this._frameWrite === this._frameSize) {
+      if (this._frameWrite === samplesPerFrame) {
         let sumSq = 0
-        for (let j = 0; j < this._frameSize; j++) {
+        for (let j = 0; j < samplesPerFrame; j++) {
           const v = this._frameBuffer[j]
           sumSq += v * v
         }
-        const rms = Math.sqrt(sumSq / this._frameSize)
+        const rms = Math.sqrt(sumSq / samplesPerFrame)
 
         let shouldSend = false
-        if (this._mode === 'ptt') {
+        if (this._mode === 'ptt' || this._pttActive) {
+          // A held talk key (e.g. a whisper/shout shortcut) transmits in VAD mode as well.
           shouldSend = this._pttActive
         } else {
           if (rms >= this._vadThreshold) {
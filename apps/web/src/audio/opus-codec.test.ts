@@ -0,0 +1,193 @@
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { canUseOpus, createOpusDecoder, createOpusEncoder } from './opus-codec'
+
+// Just enough of WebCodecs and Worker to see which backend gets picked and what it is fed.
+
+type Callbacks = { output: (out: unknown) => void; error: (err: unknown) => void }
+
+class FakeCodec {
+  static instances: FakeCodec[] = []
+  readonly inputs: unknown[] = []
+  closed = false
+  private _flushes: Array<{ resolve: () => void; reject: (err: unknown) => void }> = []
+
+  constructor(readonly callbacks: Callbacks) {
+    FakeCodec.instances.push(this)
+  }
+
+  configure() {}
+  encode(data: { init: { data: Float32Array } }) {
+    this.inputs.push(data.init.data.slice())
+  }
+  decode(chunk: { init: { data: Uint8Array } }) {
+    this.inputs.push(chunk.init.data.slice())
+  }
+  flush() {
+    return new Promise<void>((resolve, reject) => this._flushes.push({ resolve, reject }))
+  }
+  close() {
+    this.closed = true
+  }
+
+  // Like a real codec: an error closes it and rejects pending flushes.
+  fail(err: unknown) {
+    this.closed = true
+    for (const f of this._flushes.splice(0)) f.reject(err)
+    this.callbacks.error(err)
+  }
+}
+
+class FakeInit {
+  constructor(readonly init: { data: Float32Array | Uint8Array }) {}
+  close() {}
+}
+
+type WorkerRequest = { type: string; id: number; pcm?: ArrayBuffer; opus?: ArrayBuffer }
+
+class FakeWorker {
+  static posted: WorkerRequest[] = []
+  onmessage: ((event: { data: unknown }) => void) | null = null
+  onerror: ((event: { message: string }) => void) | null = null
+  postMessage(msg: WorkerRequest) {
+    FakeWorker.posted.push(msg)
+  }
+}
+
+const webCodecsGlobals = { AudioEncoder: FakeCodec, AudioDecoder: FakeCodec, AudioData: FakeInit, EncodedAudioChunk: FakeInit }
+
+function setGlobals(globals: Record<string, unknown>) {
+  Object.assign(globalThis, globals)
+}
+
+function clearGlobals(names: string[]) {
+  for (const name of names) delete (globalThis as Record<string, unknown>)[name]
+}
+
+const encoderParams = { sampleRate: 48000, channels: 1, onOpus: () => {} }
+const decoderParams = { sampleRate: 48000, channels: 1, onPcm: () => {} }
+
+beforeEach(() => {
+  FakeCodec.instances = []
+  FakeWorker.posted = []
+  setGlobals({ ...webCodecsGlobals, Worker: FakeWorker })
+})
+
+afterEach(() => {
+  clearGlobals([...Object.keys(webCodecsGlobals), 'Worker'])
+})
+
+describe('canUseOpus', () => {
+  it('follows the available implementations', () => {
+    assert.equal(canUseOpus('auto'), true)
+    assert.equal(canUseOpus('webcodecs'), true)
+    assert.equal(canUseOpus('wasm'), true)
+
+    clearGlobals(['AudioEncoder'])
+    assert.equal(canUseOpus('webcodecs'), false)
+    assert.equal(canUseOpus('auto'), true)
+
+    clearGlobals(['Worker'])
+    assert.equal(canUseOpus('wasm'), false)
+    assert.equal(canUseOpus('auto'), false)
+  })
+})
+
+describe('createOpusEncoder', () => {
+  it('uses the requested backend', () => {
+    createOpusEncoder({ ...encoderParams, backend: 'webcodecs' })
+    assert.equal(FakeCodec.instances.length, 1)
+    assert.equal(FakeWorker.posted.length, 0)
+
+    createOpusEncoder({ ...encoderParams, backend: 'wasm' })
+    assert.equal(FakeCodec.instances.length, 1)
+    assert.deepEqual(
+      FakeWorker.posted.map((m) => m.type),
+      ['init']
+    )
+  })
+
+  it('prefers WebCodecs on auto', () => {
+    createOpusEncoder({ ...encoderParams, backend: 'auto' })
+    assert.equal(FakeCodec.instances.length, 1)
+    assert.equal(FakeWorker.posted.length, 0)
+  })
+
+  it('uses WASM on auto without WebCodecs', () => {
+    clearGlobals(['AudioEncoder'])
+    createOpusEncoder({ ...encoderParams, backend: 'auto' })
+    assert.deepEqual(
+      FakeWorker.posted.map((m) => m.type),
+      ['init']
+    )
+  })
+
+  it('replays audio queued before a configuration error into WASM', async () => {
+    const encoder = createOpusEncoder({ ...encoderParams, backend: 'auto' })
+    const webcodecs = FakeCodec.instances[0]!
+    encoder.encode(new Float32Array([0.1, 0.2]))
+    encoder.encode(new Float32Array([0.3]))
+    const flushed = encoder.flush()
+
+    webcodecs.fail(new Error('NotSupportedError'))
+    encoder.encode(new Float32Array([0.4]))
+    await new Promise((resolve) => setImmediate(resolve))
+
+    assert.equal(webcodecs.closed, true)
+    assert.deepEqual(
+      FakeWorker.posted.map((m) => m.type),
+      ['init', 'encode', 'encode', 'encode', 'flush']
+    )
+    assert.deepEqual(
+      FakeWorker.posted.filter((m) => m.pcm).map((m) => [...new Float32Array(m.pcm!)]),
+      [[0.1, 0.2], [0.3], [0.4]].map((v) => [...new Float32Array(v)])
+    )
+
+    // The flush moved over to the WASM encoder; closing it settles the pending flush.
+    encoder.close()
+    await flushed
+  })
+
+  it('reports errors after the first output instead of switching', () => {
+    const errors: unknown[] = []
+    createOpusEncoder({ ...encoderParams, backend: 'auto', onError: (err) => errors.push(err) })
+    const webcodecs = FakeCodec.instances[0]!
+    webcodecs.callbacks.output({ byteLength: 1, copyTo: (out: Uint8Array) => out.set([0xfc]) })
+
+    const err = new Error('EncodingError')
+    webcodecs.fail(err)
+
+    assert.deepEqual(errors, [err])
+    assert.equal(FakeWorker.posted.length, 0)
+  })
+})
+
+describe('createOpusDecoder', () => {
+  it('replays packets queued before a configuration error into WASM', () => {
+    const decoder = createOpusDecoder({ ...decoderParams, backend: 'auto' })
+    const webcodecs = FakeCodec.instances[0]!
+    decoder.decode(new Uint8Array([1, 2]))
+    decoder.decode(new Uint8Array([3]))
+
+    webcodecs.fail(new Error('NotSupportedError'))
+    decoder.decode(new Uint8Array([4]))
+
+    assert.deepEqual(
+      FakeWorker.posted.map((m) => m.type),
+      ['init', 'decode', 'decode', 'decode']
+    )
+    assert.deepEqual(
+      FakeWorker.posted.filter((m) => m.opus).map((m) => [...new Uint8Array(m.opus!)]),
+      [[1, 2], [3], [4]]
+    )
+  })
+
+  it('uses the requested backend', () => {
+    createOpusDecoder({ ...decoderParams, backend: 'wasm' })
+    assert.equal(FakeCodec.instances.length, 0)
+    assert.deepEqual(
+      FakeWorker.posted.map((m) => m.type),
+      ['init']
+    )
+  })
+})
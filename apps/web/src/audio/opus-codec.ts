@@ -0,0 +1,127 @@
+'use client'
+
+import {
+  canUseWebCodecsOpus,
+  createWebCodecsOpusDecoder,
+  createWebCodecsOpusEncoder,
+  type WebCodecsOpusDecoder,
+  type WebCodecsOpusEncoder
+} from './webcodecs-opus'
+import { canUseWasmOpus, createWasmOpusDecoder, createWasmOpusEncoder } from './wasm-opus'
+
+// 'auto' prefers WebCodecs and falls back to WASM libopus when it is missing or fails to configure.
+export type OpusBackend = 'auto' | 'webcodecs' | 'wasm'
+
+type EncoderParams = Parameters<typeof createWebCodecsOpusEncoder>[0]
+type DecoderParams = Parameters<typeof createWebCodecsOpusDecoder>[0]
+
+export function canUseOpus(backend: OpusBackend): boolean {
+  if (backend === 'webcodecs') return canUseWebCodecsOpus()
+  if (backend === 'wasm') return canUseWasmOpus()
+  return canUseWebCodecsOpus() || canUseWasmOpus()
+}
+
+export function createOpusEncoder(params: EncoderParams & { backend: OpusBackend }): WebCodecsOpusEncoder {
+  const { backend, ...rest } = params
+  if (backend === 'webcodecs') return createWebCodecsOpusEncoder(rest)
+  if (backend === 'wasm' || !canUseWebCodecsOpus()) return createWasmOpusEncoder(rest)
+
+  // An unsupported configuration is only reported through the error callback, by which time audio may already
+  // have been queued. Input is kept until the first output so the WASM encoder can be fed the same audio.
+  let replay: Float32Array[] | null = []
+  let current: WebCodecsOpusEncoder
+  try {
+    current = createWebCodecsOpusEncoder({
+      ...rest,
+      onOpus: (opus) => {
+        replay = null
+        rest.onOpus(opus)
+      },
+      onError: (err) => {
+        const queued = replay
+        replay = null
+        if (!queued || !canUseWasmOpus()) {
+          rest.onError?.(err)
+          return
+        }
+        // eslint-disable-next-line no-console
+        console.warn(`[voice] WebCodecs Opus encoder failed, using WASM: ${String(err)}`)
+        current.close()
+        current = createWasmOpusEncoder(rest)
+        for (const pcm of queued) current.encode(pcm)
+      }
+    })
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.warn(`[voice] WebCodecs Opus encoder unavailable, using WASM: ${String(e)}`)
+    return createWasmOpusEncoder(rest)
+  }
+
+  return {
+    encode: (pcm) => {
+      replay?.push(pcm.slice())
+      current.encode(pcm)
+    },
+    flush: async () => {
+      const encoder = current
+      try {
+        await encoder.flush()
+      } catch (err) {
+        // The flush was cut short by the switch to WASM: flush the replayed audio there instead.
+        if (current === encoder) throw err
+        await current.flush()
+      }
+    },
+    close: () => {
+      replay = null
+      current.close()
+    }
+  }
+}
+
+export function createOpusDecoder(params: DecoderParams & { backend: OpusBackend }): WebCodecsOpusDecoder {
+  const { backend, ...rest } = params
+  if (backend === 'webcodecs') return createWebCodecsOpusDecoder(rest)
+  if (backend === 'wasm' || !canUseWebCodecsOpus()) return createWasmOpusDecoder(rest)
+
+  // Same as the encoder: packets are kept until the first decoded audio so a late failure doesn't drop them.
+  let replay: Uint8Array[] | null = []
+  let current: WebCodecsOpusDecoder
+  try {
+    current = createWebCodecsOpusDecoder({
+      ...rest,
+      onPcm: (pcm) => {
+        replay = null
+        rest.onPcm(pcm)
+      },
+      onError: (err) => {
+        const queued = replay
+        replay = null
+        if (!queued || !canUseWasmOpus()) {
+          rest.onError?.(err)
+          return
+        }
+        // eslint-disable-next-line no-console
+        console.warn(`[voice] WebCodecs Opus decoder failed, using WASM: ${String(err)}`)
+        current.close()
+        current = createWasmOpusDecoder(rest)
+        for (const opus of queued) current.decode(opus)
+      }
+    })
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.warn(`[voice] WebCodecs Opus decoder unavailable, using WASM: ${String(e)}`)
+    return createWasmOpusDecoder(rest)
+  }
+
+  return {
+    decode: (opus) => {
+      replay?.push(opus.slice())
+      current.decode(opus)
+    },
+    close: () => {
+      replay = null
+      current.close()
+    }
+  }
+}
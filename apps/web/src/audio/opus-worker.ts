@@ -0,0 +1,159 @@
+import createOpusModule, { type OpusNativeModule, type OpusScriptHandler } from 'opusscript/build/opusscript_native_wasm.js'
+
+// libopus (WASM) for browsers without WebCodecs. One worker hosts every encoder/decoder of the page;
+// messages carry the codec id. See wasm-opus.ts for the main-thread side.
+
+const OPUS_APPLICATION_VOIP = 2048
+const OPUS_APPLICATION_AUDIO = 2049
+const OPUS_SET_BITRATE = 4002
+// 60 ms at 48kHz is the longest frame libopus accepts.
+const MAX_FRAME_SIZE = 2880
+const MAX_PACKET_SIZE = 1276 * 3
+
+type Codec = {
+  handler: OpusScriptHandler
+  channels: number
+  frameSize: number
+  pcmPtr: number
+  opusPtr: number
+  // Encoder input that doesn't fill a whole frame yet (interleaved).
+  pending: Float32Array
+  pendingLength: number
+}
+
+// Encoders and decoders share `init`; decoders ignore the encoder options.
+export type OpusWorkerRequest =
+  | { type: 'init'; id: number; sampleRate: number; channels: number; bitrate?: number; frameDurationMs?: number }
+  | { type: 'encode'; id: number; pcm: ArrayBuffer }
+  | { type: 'flush'; id: number }
+  | { type: 'decode'; id: number; opus: ArrayBuffer }
+  | { type: 'close'; id: number }
+
+export type OpusWorkerResponse =
+  | { type: 'opus'; id: number; opus: ArrayBuffer }
+  | { type: 'pcm'; id: number; pcm: ArrayBuffer }
+  | { type: 'flushed'; id: number }
+  | { type: 'error'; id: number; message: string }
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent) => void) | null
+  postMessage: (msg: OpusWorkerResponse, transfer?: Transferable[]) => void
+}
+
+const codecs = new Map<number, Codec>()
+let modulePromise: Promise<OpusNativeModule> | null = null
+
+function loadModule(): Promise<OpusNativeModule> {
+  if (!modulePromise) {
+    modulePromise = (async () => {
+      const mod = createOpusModule({
+        locateFile: () => new URL('opusscript/build/opusscript_native_wasm.wasm', import.meta.url).href
+      })
+      await mod.ready
+      return mod
+    })()
+  }
+  return modulePromise
+}
+
+function encodeFrame(mod: OpusNativeModule, id: number, codec: Codec, frame: Float32Array) {
+  const heap = mod.HEAP16
+  const base = codec.pcmPtr >> 1
+  for (let i = 0; i < frame.length; i++) {
+    const v = (frame[i] ?? 0) * 32768
+    heap[base + i] = v > 32767 ? 32767 : v < -32768 ? -32768 : v
+  }
+
+  const len = codec.handler._encode(codec.pcmPtr, frame.length, codec.opusPtr, codec.frameSize)
+  if (len < 0) throw new Error(`opus_encode failed (${len})`)
+  const opus = mod.HEAPU8.slice(codec.opusPtr, codec.opusPtr + len)
+  scope.postMessage({ type: 'opus', id, opus: opus.buffer }, [opus.buffer])
+}
+
+function handle(mod: OpusNativeModule, msg: OpusWorkerRequest) {
+  const id = msg.id
+
+  if (msg.type === 'init') {
+    const channels = msg.channels === 2 ? 2 : 1
+    const sampleRate = msg.sampleRate || 48000
+    // Stereo uplink is meant for music; mono is voice.
+    const application = channels === 2 ? OPUS_APPLICATION_AUDIO : OPUS_APPLICATION_VOIP
+    const handler = new mod.OpusScriptHandler(sampleRate, channels, application)
+    if (typeof msg.bitrate === 'number') handler._encoder_ctl(OPUS_SET_BITRATE, msg.bitrate)
+
+    const frameSize = Math.min(MAX_FRAME_SIZE, Math.round((sampleRate * (msg.frameDurationMs || 20)) / 1000))
+    codecs.set(id, {
+      handler,
+      channels,
+      frameSize,
+      pcmPtr: mod._malloc(MAX_FRAME_SIZE * channels * 2),
+      opusPtr: mod._malloc(MAX_PACKET_SIZE),
+      pending: new Float32Array(frameSize * channels),
+      pendingLength: 0
+    })
+    return
+  }
+
+  const codec = codecs.get(id)
+  if (!codec) return
+
+  if (msg.type === 'encode') {
+    const pcm = new Float32Array(msg.pcm)
+    let offset = 0
+    while (offset < pcm.length) {
+      const take = Math.min(codec.pending.length - codec.pendingLength, pcm.length - offset)
+      codec.pending.set(pcm.subarray(offset, offset + take), codec.pendingLength)
+      codec.pendingLength += take
+      offset += take
+      if (codec.pendingLength === codec.pending.length) {
+        encodeFrame(mod, id, codec, codec.pending)
+        codec.pendingLength = 0
+      }
+    }
+    return
+  }
+
+  if (msg.type === 'flush') {
+    // Pad the last partial frame with silence, like WebCodecs does on flush().
+    if (codec.pendingLength > 0) {
+      codec.pending.fill(0, codec.pendingLength)
+      encodeFrame(mod, id, codec, codec.pending)
+      codec.pendingLength = 0
+    }
+    scope.postMessage({ type: 'flushed', id })
+    return
+  }
+
+  if (msg.type === 'decode') {
+    const opus = new Uint8Array(msg.opus)
+    if (opus.length > MAX_PACKET_SIZE) throw new Error('Opus packet too large')
+    mod.HEAPU8.set(opus, codec.opusPtr)
+    const frames = codec.handler._decode(codec.opusPtr, opus.length, codec.pcmPtr)
+    if (frames < 0) throw new Error(`opus_decode failed (${frames})`)
+
+    const heap = mod.HEAP16
+    const base = codec.pcmPtr >> 1
+    const pcm = new Float32Array(frames * codec.channels)
+    for (let i = 0; i < pcm.length; i++) pcm[i] = (heap[base + i] ?? 0) / 32768
+    scope.postMessage({ type: 'pcm', id, pcm: pcm.buffer }, [pcm.buffer])
+    return
+  }
+
+  if (msg.type === 'close') {
+    codecs.delete(id)
+    mod.OpusScriptHandler.destroy_handler(codec.handler)
+    mod._free(codec.pcmPtr)
+    mod._free(codec.opusPtr)
+  }
+}
+
+// Messages are handled in order; the first ones wait for the WASM module to load.
+let chain: Promise<void> = Promise.resolve()
+
+scope.onmessage = (event) => {
+  const msg = event.data as OpusWorkerRequest
+  if (!msg || typeof msg.type !== 'string' || typeof msg.id !== 'number') return
+  chain = chain
+    .then(async () => handle(await loadModule(), msg))
+    .catch((err) => scope.postMessage({ type: 'error', id: msg.id, message: String(err) }))
+}
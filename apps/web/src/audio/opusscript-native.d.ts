@@ -0,0 +1,24 @@
+// Emscripten build of libopus shipped with `opusscript`. Its main entry wraps this in Node Buffers,
+// so the worker talks to the native module directly.
+declare module 'opusscript/build/opusscript_native_wasm.js' {
+  export interface OpusScriptHandler {
+    _encode(inputPtr: number, inputLength: number, outputPtr: number, frameSize: number): number
+    _decode(inputPtr: number, inputLength: number, outputPtr: number): number
+    _encoder_ctl(ctl: number, arg: number): number
+    _decoder_ctl(ctl: number, arg: number): number
+  }
+
+  export interface OpusNativeModule {
+    ready: Promise<unknown>
+    HEAP16: Int16Array
+    HEAPU8: Uint8Array
+    OpusScriptHandler: {
+      new (sampleRate: number, channels: number, application: number): OpusScriptHandler
+      destroy_handler(handler: OpusScriptHandler): void
+    }
+    _malloc(bytes: number): number
+    _free(ptr: number): void
+  }
+
+  export default function createOpusModule(options?: { locateFile?: (path: string, prefix: string) => string }): OpusNativeModule
+}
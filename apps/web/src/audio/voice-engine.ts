@@ -7,11 +7,29 @@ type VoiceEngineConfig = {
   onCaptureStats?: (stats: { rms: number; sending: boolean }) => void
 }
 
+type Vec3 = [number, number, number]
+
 export type VoicePcmFrame = {
   userId: number
   channels: number
   sampleRate: number
   pcm: Float32Array
+  // Speaker position in Mumble coordinates; spatialised when spatial audio is on.
+  position?: Vec3
+}
+
+// A speaker with a position gets its own playback node feeding a panner.
+type SpatialVoice = {
+  node: AudioWorkletNode
+  panner: PannerNode
+  lastActive: number
+}
+
+const SPATIAL_IDLE_SECONDS = 10
+
+// Mumble uses a left-handed system (z forward), Web Audio a right-handed one (-z forward).
+function toWebAudio(v: Vec3): Vec3 {
+  return [v[0], v[1], -v[2]]
 }
 
 export class VoiceEngine {
@@ -24,6 +42,11 @@ export class VoiceEngine {
   private _captureGain: GainNode | null = null
   private _muted = false
 
+  private _spatialEnabled = false
+  private _spatialVoices = new Map<number, SpatialVoice>()
+  private _lastSpatialSweep = 0
+  private _listener: { position: Vec3; front: Vec3; top: Vec3 } = { position: [0, 0, 0], front: [0, 0, 1], top: [0, 1, 0] }
+
   private _micStream: MediaStream | null = null
   private _micSource: MediaStreamAudioSourceNode | null = null
 
@@ -32,6 +55,9 @@ export class VoiceEngine {
   private _pttActive = false
   private _vadThreshold = 0.02
   private _vadHoldTimeMs = 200
+  // Uplink format: interleaved PCM frames of `_frameMs` at 48kHz.
+  private _channels: 1 | 2 = 1
+  private _frameMs = 20
 
   constructor(config: VoiceEngineConfig) {
     this._config = config
@@ -89,6 +115,7 @@ export class VoiceEngine {
     this._audioContext = ctx
     this._playbackNode = playback
     this._playbackGain = playbackGain
+    this._applyListener()
 
     if (ctx.sampleRate !== 48000) {
       // Keep working, but current implementation assumes 48kHz for both playback and uplink.
@@ -111,10 +138,94 @@ export class VoiceEngine {
     const pcmCopy = new Float32Array(frame.pcm.length)
     pcmCopy.set(frame.pcm)
 
-    playback.port.postMessage(
+    const target = this._spatialEnabled && frame.position ? this._spatialVoice(frame.userId, frame.position) : playback
+    target.port.postMessage(
       { type: 'pcm', userId: frame.userId, channels: frame.channels, pcm: pcmCopy.buffer },
       [pcmCopy.buffer]
     )
+
+    if (ctx.currentTime - this._lastSpatialSweep > 1) {
+      this._lastSpatialSweep = ctx.currentTime
+      for (const [userId, voice] of this._spatialVoices) {
+        if (ctx.currentTime - voice.lastActive > SPATIAL_IDLE_SECONDS) this._closeSpatialVoice(userId)
+      }
+    }
+  }
+
+  setSpatialAudio(enabled: boolean) {
+    this._spatialEnabled = enabled
+    if (!enabled) {
+      for (const userId of [...this._spatialVoices.keys()]) this._closeSpatialVoice(userId)
+    }
+  }
+
+  // Our own position and orientation (Mumble coordinates); null puts the listener back at the origin.
+  setListener(position: Vec3 | null, front?: Vec3, top?: Vec3) {
+    this._listener = { position: position ?? [0, 0, 0], front: front ?? [0, 0, 1], top: top ?? [0, 1, 0] }
+    this._applyListener()
+  }
+
+  private _applyListener() {
+    const listener = this._audioContext?.listener
+    if (!listener) return
+    const [px, py, pz] = toWebAudio(this._listener.position)
+    const [fx, fy, fz] = toWebAudio(this._listener.front)
+    const [ux, uy, uz] = toWebAudio(this._listener.top)
+    // Firefox only implements the deprecated setters.
+    if (listener.positionX) {
+      listener.positionX.value = px
+      listener.positionY.value = py
+      listener.positionZ.value = pz
+      listener.forwardX.value = fx
+      listener.forwardY.value = fy
+      listener.forwardZ.value = fz
+      listener.upX.value = ux
+      listener.upY.value = uy
+      listener.upZ.value = uz
+    } else {
+      listener.setPosition(px, py, pz)
+      listener.setOrientation(fx, fy, fz, ux, uy, uz)
+    }
+  }
+
+  private _spatialVoice(userId: number, position: Vec3): AudioWorkletNode {
+    const ctx = this._audioContext as AudioContext
+    let voice = this._spatialVoices.get(userId)
+    if (!voice) {
+      const node = new AudioWorkletNode(ctx, 'mumble-playback', {
+        numberOfInputs: 0,
+        numberOfOutputs: 1,
+        outputChannelCount: [1]
+      })
+      const panner = new PannerNode(ctx, {
+        panningModel: 'HRTF',
+        distanceModel: 'linear',
+        refDistance: 1,
+        maxDistance: 15,
+        rolloffFactor: 1
+      })
+      node.connect(panner)
+      if (this._playbackGain) panner.connect(this._playbackGain)
+      voice = { node, panner, lastActive: ctx.currentTime }
+      this._spatialVoices.set(userId, voice)
+    }
+
+    const [x, y, z] = toWebAudio(position)
+    voice.panner.positionX.value = x
+    voice.panner.positionY.value = y
+    voice.panner.positionZ.value = z
+    voice.lastActive = ctx.currentTime
+    return voice.node
+  }
+
+  private _closeSpatialVoice(userId: number) {
+    const voice = this._spatialVoices.get(userId)
+    if (!voice) return
+    this._spatialVoices.delete(userId)
+    try {
+      voice.node.disconnect()
+      voice.panner.disconnect()
+    } catch {}
   }
 
   setMode(mode: 'vad' | 'ptt') {
@@ -137,16 +248,28 @@ export class VoiceEngine {
     this._postCaptureConfig()
   }
 
+  // Takes effect for the microphone on the next enableMic()/switchDevice(); stereo needs a stereo input.
+  setChannels(channels: 1 | 2) {
+    this._channels = channels
+    this._postCaptureConfig()
+  }
+
+  setFrameDuration(ms: number) {
+    this._frameMs = ms
+    this._postCaptureConfig()
+  }
+
   private _postCaptureConfig() {
     if (!this._captureNode) return
-    const hangoverFrames = Math.round(this._vadHoldTimeMs / 20)
+    const hangoverFrames = Math.round(this._vadHoldTimeMs / this._frameMs)
     this._captureNode.port.postMessage({
       type: 'config',
       enabled: this._micEnabled,
       mode: this._mode,
       pttActive: this._pttActive,
       vadThreshold: this._vadThreshold,
-      frameSize: 960,
+      frameSize: Math.round((48000 * this._frameMs) / 1000),
+      channels: this._channels,
       hangoverFrames
     })
   }
@@ -162,7 +285,7 @@ export class VoiceEngine {
       echoCancellation: options?.echoCancellation ?? true,
       noiseSuppression: options?.noiseSuppression ?? true,
       autoGainControl: options?.autoGainControl ?? true,
-      channelCount: 1
+      channelCount: this._channels
     }
     if (options?.deviceId) {
       audioConstraints.deviceId = { exact: options.deviceId }
@@ -173,6 +296,8 @@ export class VoiceEngine {
     const source = ctx.createMediaStreamSource(stream)
     const capture = new AudioWorkletNode(ctx, 'mumble-capture', {
       numberOfInputs: 1,
+      channelCount: this._channels,
+      channelCountMode: 'explicit',
       numberOfOutputs: 1,
       outputChannelCount: [1]
     })
@@ -0,0 +1,130 @@
+'use client'
+
+import type { OpusWorkerRequest, OpusWorkerResponse } from './opus-worker'
+import type { WebCodecsOpusDecoder, WebCodecsOpusEncoder } from './webcodecs-opus'
+
+// Same interface as the WebCodecs codecs, backed by libopus in a shared worker (opus-worker.ts).
+
+let worker: Worker | null = null
+let nextCodecId = 1
+const codecHandlers = new Map<number, (msg: OpusWorkerResponse) => void>()
+
+function getWorker(): Worker {
+  if (worker) return worker
+  const w = new Worker(new URL('./opus-worker.ts', import.meta.url), { type: 'module' })
+  w.onmessage = (event) => {
+    const msg = event.data as OpusWorkerResponse
+    if (msg && typeof msg.id === 'number') codecHandlers.get(msg.id)?.(msg)
+  }
+  w.onerror = (event) => {
+    for (const [id, handler] of codecHandlers) handler({ type: 'error', id, message: event.message })
+  }
+  worker = w
+  return w
+}
+
+function post(w: Worker, msg: OpusWorkerRequest, transfer: Transferable[] = []) {
+  w.postMessage(msg, transfer)
+}
+
+export function canUseWasmOpus(): boolean {
+  return typeof Worker === 'function' && typeof WebAssembly === 'object'
+}
+
+export function createWasmOpusEncoder(params: {
+  sampleRate: number
+  channels: number
+  bitrate?: number
+  frameDurationMs?: number
+  onOpus: (opus: Uint8Array) => void
+  onError?: (err: unknown) => void
+}): WebCodecsOpusEncoder {
+  if (!canUseWasmOpus()) {
+    throw new Error('WebAssembly workers are not available')
+  }
+
+  const w = getWorker()
+  const id = nextCodecId++
+  const pendingFlushes: Array<() => void> = []
+
+  codecHandlers.set(id, (msg) => {
+    if (msg.type === 'opus') {
+      try {
+        params.onOpus(new Uint8Array(msg.opus))
+      } catch (err) {
+        params.onError?.(err)
+      }
+    } else if (msg.type === 'flushed') {
+      pendingFlushes.shift()?.()
+    } else if (msg.type === 'error') {
+      // Don't leave callers waiting on a flush that will never be answered.
+      for (const resolve of pendingFlushes.splice(0)) resolve()
+      params.onError?.(new Error(msg.message))
+    }
+  })
+
+  post(w, {
+    type: 'init',
+    id,
+    sampleRate: params.sampleRate,
+    channels: params.channels,
+    ...(params.bitrate != null ? { bitrate: params.bitrate } : {}),
+    ...(params.frameDurationMs != null ? { frameDurationMs: params.frameDurationMs } : {})
+  })
+
+  return {
+    encode: (pcm: Float32Array) => {
+      const copy = pcm.slice()
+      post(w, { type: 'encode', id, pcm: copy.buffer }, [copy.buffer])
+    },
+    flush: () =>
+      new Promise<void>((resolve) => {
+        pendingFlushes.push(resolve)
+        post(w, { type: 'flush', id })
+      }),
+    close: () => {
+      codecHandlers.delete(id)
+      for (const resolve of pendingFlushes.splice(0)) resolve()
+      post(w, { type: 'close', id })
+    }
+  }
+}
+
+export function createWasmOpusDecoder(params: {
+  sampleRate: number
+  channels: number
+  onPcm: (pcm: Float32Array) => void
+  onError?: (err: unknown) => void
+}): WebCodecsOpusDecoder {
+  if (!canUseWasmOpus()) {
+    throw new Error('WebAssembly workers are not available')
+  }
+
+  const w = getWorker()
+  const id = nextCodecId++
+
+  codecHandlers.set(id, (msg) => {
+    if (msg.type === 'pcm') {
+      try {
+        params.onPcm(new Float32Array(msg.pcm))
+      } catch (err) {
+        params.onError?.(err)
+      }
+    } else if (msg.type === 'error') {
+      params.onError?.(new Error(msg.message))
+    }
+  })
+
+  post(w, { type: 'init', id, sampleRate: params.sampleRate, channels: params.channels })
+
+  return {
+    decode: (opus: Uint8Array) => {
+      const copy = opus.slice()
+      post(w, { type: 'decode', id, opus: copy.buffer }, [copy.buffer])
+    },
+    close: () => {
+      codecHandlers.delete(id)
+      post(w, { type: 'close', id })
+    }
+  }
+}
@@ -24,6 +24,8 @@ export function createWebCodecsOpusEncoder(params: {
   sampleRate: number
   channels: number
   bitrate?: number
+  // Opus frame duration: 10, 20, 40 or 60 ms (WebCodecs defaults to 20).
+  frameDurationMs?: number
   onOpus: (opus: Uint8Array) => void
   onError?: (err: unknown) => void
 }): WebCodecsOpusEncoder {
@@ -51,6 +53,7 @@ export function createWebCodecsOpusEncoder(params: {
     numberOfChannels: params.channels
   }
   if (params.bitrate != null) config.bitrate = params.bitrate
+  if (params.frameDurationMs != null) config.opus = { frameDuration: params.frameDurationMs * 1000 }
 
   encoder.configure(config)
 
@@ -0,0 +1,118 @@
+'use client'
+
+import forge from 'node-forge'
+import { withStore } from '../storage/idb'
+
+// A client identity as stored in IndexedDB. The gateway presents `certPem`/`keyPem` on the Mumble TLS
+// connection; the server recognises registered users by the certificate hash (SHA-1 of the DER cert).
+export type StoredIdentity = {
+  id: string
+  name: string
+  certPem: string
+  keyPem: string
+  fingerprint: string
+  createdAtMs: number
+  expiresAtMs: number
+}
+
+export type IdentityInfo = Omit<StoredIdentity, 'certPem' | 'keyPem'>
+
+const STORE = 'identities'
+
+// PKCS#12 bag type OIDs (forge.pki.oids is typed as a loose string map).
+const PKCS8_SHROUDED_KEY_BAG = '1.2.840.113549.1.12.10.1.2'
+const KEY_BAG = '1.2.840.113549.1.12.10.1.1'
+const CERT_BAG = '1.2.840.113549.1.12.10.1.3'
+
+function fingerprintOf(cert: forge.pki.Certificate): string {
+  const der = forge.asn1.toDer(forge.pki.certificateToAsn1(cert)).getBytes()
+  return forge.md.sha1.create().update(der).digest().toHex()
+}
+
+function randomId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+function toStoredIdentity(name: string, cert: forge.pki.Certificate, key: forge.pki.PrivateKey): StoredIdentity {
+  return {
+    id: randomId(),
+    name,
+    certPem: forge.pki.certificateToPem(cert),
+    keyPem: forge.pki.privateKeyToPem(key),
+    fingerprint: fingerprintOf(cert),
+    createdAtMs: Date.now(),
+    expiresAtMs: cert.validity.notAfter.getTime()
+  }
+}
+
+export function toIdentityInfo(identity: StoredIdentity): IdentityInfo {
+  const { certPem: _cert, keyPem: _key, ...info } = identity
+  return info
+}
+
+// Self-signed certificate like the desktop client's certificate wizard creates.
+export async function generateIdentity(name: string): Promise<StoredIdentity> {
+  const keys = await new Promise<forge.pki.rsa.KeyPair>((resolve, reject) => {
+    forge.pki.rsa.generateKeyPair({ bits: 2048, workers: -1 }, (err, keypair) => (err ? reject(err) : resolve(keypair)))
+  })
+
+  const cert = forge.pki.createCertificate()
+  cert.publicKey = keys.publicKey
+  cert.serialNumber = `01${forge.util.bytesToHex(forge.random.getBytesSync(15))}`
+  cert.validity.notBefore = new Date()
+  cert.validity.notAfter = new Date()
+  cert.validity.notAfter.setFullYear(cert.validity.notBefore.getFullYear() + 20)
+
+  const attrs = [{ name: 'commonName', value: name }]
+  cert.setSubject(attrs)
+  cert.setIssuer(attrs)
+  cert.setExtensions([
+    { name: 'basicConstraints', cA: false },
+    { name: 'keyUsage', digitalSignature: true, keyEncipherment: true },
+    { name: 'extKeyUsage', clientAuth: true }
+  ])
+  cert.sign(keys.privateKey, forge.md.sha256.create())
+
+  return toStoredIdentity(name, cert, keys.privateKey)
+}
+
+export function importPkcs12(data: ArrayBuffer, passphrase: string, name?: string): StoredIdentity {
+  const der = forge.util.binary.raw.encode(new Uint8Array(data))
+  const p12 = forge.pkcs12.pkcs12FromAsn1(forge.asn1.fromDer(der), passphrase)
+
+  const bagsOf = (bagType: string) => p12.getBags({ bagType })[bagType] ?? []
+  const keyBags = [...bagsOf(PKCS8_SHROUDED_KEY_BAG), ...bagsOf(KEY_BAG)]
+  const certBags = bagsOf(CERT_BAG)
+
+  const key = keyBags.find((b) => b.key)?.key
+  const cert = certBags.find((b) => b.cert)?.cert
+  if (!key || !cert) throw new Error('PKCS#12 file does not contain a private key and certificate')
+
+  const commonName = cert.subject.getField('CN')?.value
+  return toStoredIdentity(name || (typeof commonName === 'string' ? commonName : '') || 'Imported identity', cert, key)
+}
+
+export function exportPkcs12(identity: StoredIdentity, passphrase: string): Uint8Array {
+  const key = forge.pki.privateKeyFromPem(identity.keyPem)
+  const cert = forge.pki.certificateFromPem(identity.certPem)
+  const asn1 = forge.pkcs12.toPkcs12Asn1(key, [cert], passphrase, { algorithm: '3des', friendlyName: identity.name })
+  return forge.util.binary.raw.decode(forge.asn1.toDer(asn1).getBytes())
+}
+
+export async function listIdentities(): Promise<IdentityInfo[]> {
+  const all = await withStore<StoredIdentity[]>(STORE, 'readonly', (store) => store.getAll())
+  return all.map(toIdentityInfo).sort((a, b) => a.createdAtMs - b.createdAtMs)
+}
+
+export async function getIdentity(id: string): Promise<StoredIdentity | null> {
+  const found = await withStore<StoredIdentity | undefined>(STORE, 'readonly', (store) => store.get(id))
+  return found ?? null
+}
+
+export async function saveIdentity(identity: StoredIdentity): Promise<void> {
+  await withStore(STORE, 'readwrite', (store) => store.put(identity))
+}
+
+export async function deleteIdentity(id: string): Promise<void> {
+  await withStore(STORE, 'readwrite', (store) => store.delete(id))
+}
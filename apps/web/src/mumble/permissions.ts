@@ -0,0 +1,53 @@
+// Mumble ACL permission bits (ChanACL::Perm in the server sources).
+export const Permission = {
+  Write: 0x1,
+  Traverse: 0x2,
+  Enter: 0x4,
+  Speak: 0x8,
+  MuteDeafen: 0x10,
+  Move: 0x20,
+  MakeChannel: 0x40,
+  LinkChannel: 0x80,
+  Whisper: 0x100,
+  TextMessage: 0x200,
+  MakeTempChannel: 0x400,
+  Listen: 0x800,
+  Kick: 0x10000,
+  Ban: 0x20000,
+  Register: 0x40000,
+  SelfRegister: 0x80000,
+  ResetUserContent: 0x100000
+} as const
+
+export type PermissionName = keyof typeof Permission
+
+// Listed in the order of the desktop client's ACL editor. `rootOnly` permissions only take effect on the root channel.
+export const PERMISSION_INFO: Array<{ name: PermissionName; label: string; rootOnly?: boolean }> = [
+  { name: 'Write', label: 'Write ACL' },
+  { name: 'Traverse', label: 'Traverse' },
+  { name: 'Enter', label: 'Enter' },
+  { name: 'Speak', label: 'Speak' },
+  { name: 'MuteDeafen', label: 'Mute/Deafen' },
+  { name: 'Move', label: 'Move' },
+  { name: 'MakeChannel', label: 'Make channel' },
+  { name: 'LinkChannel', label: 'Link channel' },
+  { name: 'Whisper', label: 'Whisper' },
+  { name: 'TextMessage', label: 'Text message' },
+  { name: 'MakeTempChannel', label: 'Make temporary' },
+  { name: 'Listen', label: 'Listen' },
+  { name: 'Kick', label: 'Kick', rootOnly: true },
+  { name: 'Ban', label: 'Ban', rootOnly: true },
+  { name: 'Register', label: 'Register user', rootOnly: true },
+  { name: 'SelfRegister', label: 'Register self', rootOnly: true },
+  { name: 'ResetUserContent', label: 'Reset user content', rootOnly: true }
+]
+
+// Built-in groups the server evaluates dynamically (the `~` prefix is "in the channel the ACL is defined on").
+export const BUILTIN_ACL_GROUPS = ['all', 'auth', 'in', 'out', 'sub', '~in', '~out', '~sub', 'admin'] as const
+
+// Permissions are only known once the server answered a PermissionQuery; until then don't block the UI
+// (the server still enforces ACLs and reports PermissionDenied).
+export function hasPermission(permissions: number | undefined, permission: number): boolean {
+  if (permissions == null) return true
+  return (permissions & permission) !== 0
+}
@@ -0,0 +1,9 @@
+import type { MumbleServerConfig } from '../state/gateway-store'
+
+// Mirrors the server check: messages with embedded images are held to `imageMessageLength`, all others to
+// `messageLength`. Lengths count UTF-16 code units like the server's QString; 0 or absent means unlimited.
+export function textMessageLimit(config: MumbleServerConfig | null, message: string): number | null {
+  if (!config) return null
+  const limit = /<img\b/i.test(message) ? config.imageMessageLength : config.messageLength
+  return limit ? limit : null
+}
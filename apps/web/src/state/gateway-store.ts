@@ -2,6 +2,10 @@
 
 import { create } from 'zustand'
 import { persist, createJSONStorage } from 'zustand/middleware'
+import type { OpusBackend } from '../audio/opus-codec'
+import { getIdentity } from '../identity/certificates'
+import { avatarDataUrl, base64ToBytes, bytesToBase64, encodeAvatar } from '../ui/avatar'
+import { appendChatMessage, chatScope, listChatThreads, loadChatMessages, searchChatMessages, type StoredChatMessage } from '../storage/chat-history'
 
 type ServerListEntry = { id: string; name: string }
 
@@ -9,19 +13,197 @@ type ChannelState = {
   id: number
   name: string
   parentId: number | null
+  position?: number
+  description?: string
+  // Long descriptions are only announced by hash; see requestChannelDescription.
+  descriptionHash?: string
+  permissions?: number
 }
 
 type UserState = {
   id: number
   name: string
   channelId: number | null
+  registeredId?: number
+  certHash?: string
+  comment?: string
+  // Set when the user has a comment/avatar on the server (the payloads are fetched on demand).
+  commentHash?: string
+  textureHash?: string
+  mute?: boolean
+  deaf?: boolean
+  suppress?: boolean
+  selfMute?: boolean
+  selfDeaf?: boolean
+  prioritySpeaker?: boolean
 }
 
+export type AclGroup = {
+  name: string
+  inherited: boolean
+  inherit: boolean
+  inheritable: boolean
+  add: number[]
+  remove: number[]
+  inheritedMembers: number[]
+}
+
+export type AclEntry = {
+  applyHere: boolean
+  applySubs: boolean
+  inherited: boolean
+  userId?: number
+  group?: string
+  grant: number
+  deny: number
+}
+
+export type BanEntry = {
+  address: string
+  mask: number
+  name?: string
+  certHash?: string
+  reason?: string
+  start?: string
+  duration?: number
+}
+
+export type RegisteredUser = {
+  userId: number
+  name: string
+  lastSeen?: string
+  lastChannelId?: number
+}
+
+export type PacketStats = {
+  good: number
+  late: number
+  lost: number
+  resync: number
+}
+
+export type UserStats = {
+  userId: number
+  statsOnly: boolean
+  fromClient?: PacketStats
+  fromServer?: PacketStats
+  udpPackets?: number
+  tcpPackets?: number
+  udpPingAvg?: number
+  udpPingVar?: number
+  tcpPingAvg?: number
+  tcpPingVar?: number
+  bandwidth?: number
+  onlineSecs?: number
+  idleSecs?: number
+  version?: string
+  release?: string
+  os?: string
+  osVersion?: string
+  address?: string
+  strongCertificate?: boolean
+  opus?: boolean
+}
+
+export type MumbleServerConfig = {
+  allowHtml?: boolean
+  messageLength?: number
+  imageMessageLength?: number
+  maxUsers?: number
+  recordingAllowed?: boolean
+  suggestPushToTalk?: boolean
+  suggestPositional?: boolean
+  suggestVersion?: string
+}
+
+export type ContextAction = {
+  action: string
+  text: string
+  contexts: Array<'server' | 'channel' | 'user'>
+}
+
+export type ChannelAcl = {
+  channelId: number
+  inheritAcls: boolean
+  groups: AclGroup[]
+  acls: AclEntry[]
+}
+
+// PluginDataTransmission payload; desktop plugins see the same bytes and filter by `dataId`.
+export type PluginDataMessage = {
+  senderId: number
+  dataId: string
+  data: Uint8Array
+}
+
+export type PluginDataHandler = (msg: PluginDataMessage) => void
+
+// Server-side limits (larger messages are dropped by Murmur, so the gateway rejects them).
+export const PLUGIN_DATA_MAX_BYTES = 1000
+export const PLUGIN_DATA_ID_MAX_LENGTH = 100
+
 type ChatItem = {
   id: string
   senderId: number
+  // Stored with the message since session ids don't survive reconnects (history comes back from IndexedDB).
+  senderName: string
   message: string
   timestampMs: number
+  // Sent by us; session ids can't tell that for history from earlier sessions.
+  own?: boolean
+  // Local notices such as gateway errors; never persisted.
+  system?: boolean
+}
+
+// Conversation with a channel (`channel:<id>`) or a private peer (see userThreadKey).
+export type ChatThread = {
+  messages: ChatItem[]
+  // Private threads: the peer's name as last seen, for display.
+  peerName?: string
+  unread: number
+  historyLoaded: boolean
+  hasOlder: boolean
+  loadingOlder: boolean
+}
+
+export type ChatSearchResult = StoredChatMessage
+
+const HISTORY_PAGE_SIZE = 50
+
+export function channelThreadKey(channelId: number): string {
+  return `channel:${channelId}`
+}
+
+// Private threads follow the peer's account so they are found again after a reconnect or rename, and aren't
+// shared with someone else who later takes the name: the registered user id, else the certificate hash.
+// Only peers with neither are keyed by name (the format older history was stored under).
+export function userThreadKey(peer: { name: string; registeredId?: number; certHash?: string }): string {
+  if (peer.registeredId != null) return `user-id:${peer.registeredId}`
+  if (peer.certHash) return `user-cert:${peer.certHash}`
+  return `user:${peer.name}`
+}
+
+// `name` is only set for name-keyed private threads.
+export function parseThreadKey(key: string): { kind: 'channel'; channelId: number } | { kind: 'user'; name?: string } | null {
+  if (key.startsWith('channel:')) return { kind: 'channel', channelId: Number(key.slice('channel:'.length)) }
+  if (key.startsWith('user:')) return { kind: 'user', name: key.slice('user:'.length) }
+  if (key.startsWith('user-id:') || key.startsWith('user-cert:')) return { kind: 'user' }
+  return null
+}
+
+// The connected user a private thread is with, if any.
+export function findThreadPeer(key: string, usersById: Record<number, UserState>): UserState | undefined {
+  return Object.values(usersById).find((u) => userThreadKey(u) === key)
+}
+
+// The explicitly opened thread, otherwise the selected channel's.
+export function currentThreadKey(state: { activeThreadKey: string | null; selectedChannelId: number | null }): string | null {
+  if (state.activeThreadKey) return state.activeThreadKey
+  return state.selectedChannelId != null ? channelThreadKey(state.selectedChannelId) : null
+}
+
+function emptyThread(): ChatThread {
+  return { messages: [], unread: 0, historyLoaded: false, hasOlder: false, loadingOlder: false }
 }
 
 type Metrics = {
@@ -53,16 +235,50 @@ type Status = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'error'
 
 type GatewayStatus = 'closed' | 'connecting' | 'open'
 
+// Positional audio uses Mumble's axes: x right, y up, z forward (left-handed), in meters.
+export type Vec3 = [number, number, number]
+
+export type SelfPosition = {
+  position: Vec3
+  // Listener orientation; defaults to facing +z with +y up.
+  front?: Vec3
+  top?: Vec3
+}
+
 type VoiceOpusFrame = {
   userId: number
   target: number
   sequence: number
   isLastFrame: boolean
   opus: Uint8Array
+  // Speaker position, only present when both sides share a plugin context.
+  position?: Vec3
 }
 
 type VoiceMode = 'vad' | 'ptt'
 
+// Opus frame durations the uplink can be configured with (ms).
+export const OPUS_FRAME_DURATIONS = [10, 20, 40, 60] as const
+export type OpusFrameDuration = (typeof OPUS_FRAME_DURATIONS)[number]
+
+export type VoiceTargetConfig = {
+  // Mumble target id (1-30); 0 means normal talking.
+  id: number
+  name: string
+  kind: 'whisper' | 'shout'
+  // Whisper: user names are resolved to sessions each time the target is registered.
+  userNames: string[]
+  // Shout: channel plus optional linked channels and subchannels.
+  channelId: number | null
+  links: boolean
+  children: boolean
+  // KeyboardEvent.code of the push-to-talk key bound to this target.
+  key: string | null
+}
+
+// `identityId` refers to a client certificate kept in IndexedDB; only the id is persisted here.
+type ConnectArgs = { serverId: string; username: string; password?: string; tokens?: string[]; identityId?: string }
+
 type GatewayStore = {
   gatewayStatus: GatewayStatus
   status: Status
@@ -76,16 +292,58 @@ type GatewayStore = {
   selfUserId: number | null
 
   selectedChannelId: number | null
-  chat: ChatItem[]
+  chatThreads: Record<string, ChatThread>
+  // Thread shown instead of the selected channel's (e.g. a private conversation); null follows the channel.
+  activeThreadKey: string | null
   metrics: Metrics
 
+  // Last ACL received from the server (answer to queryAcl)
+  channelAcl: ChannelAcl | null
+  // Server ban list (answer to queryBanList)
+  banList: BanEntry[] | null
+  // Registered accounts (answer to queryUserList)
+  registeredUsers: RegisteredUser[] | null
+  // Registered user names by id and ids by lower-cased name (resolveUsers); null marks unknown ones
+  registeredUserNames: Record<number, string | null>
+  registeredUserIds: Record<string, number | null>
+  // Avatar images as data URLs, fetched for every user that has a texture
+  avatarsByUserId: Record<number, string>
+  // Latest statistics of the user passed to queryUserStats
+  userStats: UserStats | null
+  // Menu entries registered by server plugins/bots
+  contextActions: ContextAction[]
+  // Server limits and suggested settings (ServerConfig/SuggestConfig)
+  serverConfig: MumbleServerConfig | null
+
+  // Self mute/deaf as reported to the server (kept across session reconnects)
+  selfMuted: boolean
+  selfDeafened: boolean
+  // Own position and plugin context for positional audio (kept across session reconnects)
+  selfPosition: SelfPosition | null
+  positionalContext: { context: string; identity?: string } | null
+
   // Audio settings (persisted)
   voiceMode: VoiceMode
+  // Once the user picks a mode, the server's push-to-talk suggestion no longer overrides it.
+  voiceModeSetByUser: boolean
   vadThreshold: number
   vadHoldTimeMs: number
   opusBitrate: number
+  opusChannels: 1 | 2
+  opusFrameMs: OpusFrameDuration
+  // Opus implementation: WebCodecs, WASM libopus, or auto (WebCodecs with WASM fallback)
+  opusBackend: OpusBackend
   uplinkCongestionControlEnabled: boolean
   uplinkMaxBufferedAmountBytes: number
+  // Place speakers that send a position around the listener (HRTF panning)
+  spatialAudioEnabled: boolean
+  // Like voiceModeSetByUser, for the server's positional audio suggestion.
+  spatialAudioSetByUser: boolean
+
+  // Whisper/shout targets (persisted)
+  voiceTargets: VoiceTargetConfig[]
+  selectedVoiceTargetId: number
+  activeVoiceTargetId: number | null
 
   // Mic settings (persisted)
   micEchoCancellation: boolean
@@ -97,7 +355,9 @@ type GatewayStore = {
   _ws: WebSocket | null
   _pingInterval: number | null
   _voiceSink: ((frame: VoiceOpusFrame) => void) | null
-  _lastConnectArgs: { serverId: string; username: string; password?: string; tokens?: string[] } | null
+  _lastConnectArgs: ConnectArgs | null
+  // IndexedDB history scope of the current session (server + identity)
+  _chatScope: string | null
   _connectedOnce: boolean
   _reconnectAttempt: number
   _reconnectTimeout: number | null
@@ -106,18 +366,64 @@ type GatewayStore = {
 
   init: () => void
   disconnect: () => void
-  connect: (args: { serverId: string; username: string; password?: string; tokens?: string[] }) => void
+  connect: (args: ConnectArgs) => void
   clearError: () => void
   setVoiceSink: (sink: ((frame: VoiceOpusFrame) => void) | null) => void
   sendMicOpus: (opus: Uint8Array, params?: { target?: number }) => void
   sendMicEnd: () => void
   selectChannel: (channelId: number) => void
+  openThread: (key: string | null) => void
+  loadOlderMessages: (key: string) => void
+  searchChatHistory: (query: string) => Promise<ChatSearchResult[]>
   joinSelectedChannel: () => void
-  sendTextToSelectedChannel: (message: string) => void
+  sendTextToSelectedChannel: (message: string, opts?: { subchannels?: boolean }) => void
+  sendTextToUser: (userId: number, message: string) => void
+  openPrivateThread: (userId: number) => void
+  setSelfMute: (mute: boolean) => void
+  setSelfDeaf: (deaf: boolean) => void
+  saveVoiceTarget: (target: VoiceTargetConfig) => void
+  removeVoiceTarget: (id: number) => void
+  selectVoiceTarget: (id: number) => void
+  setActiveVoiceTarget: (id: number | null) => void
+  createChannel: (params: { parentId: number; name: string; description?: string; temporary?: boolean }) => void
+  updateChannel: (params: { channelId: number; name?: string; parentId?: number; description?: string; position?: number }) => void
+  removeChannel: (channelId: number) => void
+  kickUser: (userId: number, reason?: string) => void
+  banUser: (userId: number, reason?: string, durationSeconds?: number) => void
+  moderateUser: (userId: number, params: { mute?: boolean; deaf?: boolean; suppress?: boolean; prioritySpeaker?: boolean }) => void
+  registerSelf: () => void
+  // Our permissions are fetched per channel on demand; the gateway skips channels it already knows.
+  queryPermissions: (channelId: number) => void
+  queryAcl: (channelId: number) => void
+  updateAcl: (acl: ChannelAcl) => void
+  queryBanList: () => void
+  updateBanList: (bans: BanEntry[]) => void
+  queryUserList: () => void
+  renameRegisteredUser: (userId: number, name: string) => void
+  unregisterUser: (userId: number) => void
+  resolveUsers: (params: { ids?: number[]; names?: string[] }) => void
+  requestUserComment: (userId: number) => void
+  requestChannelDescription: (channelId: number) => void
+  setSelfComment: (comment: string) => void
+  setSelfAvatar: (image: Blob | null) => Promise<void>
+  queryUserStats: (userId: number, statsOnly?: boolean) => void
+  triggerContextAction: (action: string, target?: { userId?: number; channelId?: number }) => void
+  // Plugin data for add-ons: strings are sent as UTF-8. Returns false if not connected or over the limits.
+  sendPluginData: (receiverIds: number[], dataId: string, data: Uint8Array | string) => boolean
+  // Calls `handler` for plugin data with this id (null = every id); returns the unsubscribe function.
+  subscribePluginData: (dataId: string | null, handler: PluginDataHandler) => () => void
+  // Positional audio for add-ons (e.g. a game bridge): the position is attached to our voice packets and
+  // used as the listener; the context decides who receives it. Pass null to stop.
+  setSelfPosition: (position: SelfPosition | null) => void
+  setPositionalContext: (context: string | null, identity?: string) => void
+  setSpatialAudioEnabled: (enabled: boolean) => void
   setVoiceMode: (mode: VoiceMode) => void
   setVadThreshold: (val: number) => void
   setVadHoldTimeMs: (val: number) => void
   setOpusBitrate: (bitrate: number) => void
+  setOpusChannels: (channels: 1 | 2) => void
+  setOpusFrameMs: (ms: OpusFrameDuration) => void
+  setOpusBackend: (backend: OpusBackend) => void
   setUplinkCongestionControlEnabled: (enabled: boolean) => void
   setUplinkMaxBufferedAmountBytes: (bytes: number) => void
   setMicEchoCancellation: (val: boolean) => void
@@ -151,6 +457,39 @@ function safeParseJson(text: string): any | null {
   }
 }
 
+async function buildConnectMessage(args: ConnectArgs): Promise<Record<string, unknown>> {
+  const { identityId, ...rest } = args
+  if (!identityId) return { type: 'connect', ...rest }
+  const identity = await getIdentity(identityId)
+  if (!identity) throw new Error('Selected certificate identity no longer exists')
+  return { type: 'connect', ...rest, certificate: { cert: identity.certPem, key: identity.keyPem } }
+}
+
+function toChannelState(ch: any): ChannelState {
+  const out: ChannelState = { id: ch.id, name: ch.name ?? '', parentId: ch.parentId ?? null }
+  if (typeof ch.position === 'number') out.position = ch.position
+  if (typeof ch.description === 'string') out.description = ch.description
+  if (typeof ch.descriptionHash === 'string') out.descriptionHash = ch.descriptionHash
+  if (typeof ch.permissions === 'number') out.permissions = ch.permissions
+  return out
+}
+
+function toUserState(u: any): UserState {
+  const out: UserState = { id: u.id, name: u.name ?? '', channelId: u.channelId ?? null }
+  if (typeof u.registeredId === 'number') out.registeredId = u.registeredId
+  if (typeof u.certHash === 'string' && u.certHash) out.certHash = u.certHash
+  if (typeof u.comment === 'string') out.comment = u.comment
+  if (typeof u.commentHash === 'string') out.commentHash = u.commentHash
+  if (typeof u.textureHash === 'string') out.textureHash = u.textureHash
+  if (typeof u.mute === 'boolean') out.mute = u.mute
+  if (typeof u.deaf === 'boolean') out.deaf = u.deaf
+  if (typeof u.suppress === 'boolean') out.suppress = u.suppress
+  if (typeof u.selfMute === 'boolean') out.selfMute = u.selfMute
+  if (typeof u.selfDeaf === 'boolean') out.selfDeaf = u.selfDeaf
+  if (typeof u.prioritySpeaker === 'boolean') out.prioritySpeaker = u.prioritySpeaker
+  return out
+}
+
 export const useGatewayStore = create<GatewayStore>()(
   persist(
     (set, get) => {
@@ -159,10 +498,126 @@ export const useGatewayStore = create<GatewayStore>()(
         pacerId: null as number | null,
         droppedTotal: 0,
         lastStatsAtMs: 0,
+        talking: false,
       }
 
       const nowMs = () => (typeof performance !== 'undefined' ? performance.now() : Date.now())
 
+      const sendControl = (msg: { type: string } & Record<string, unknown>): boolean => {
+        const ws = get()._ws
+        if (!ws || ws.readyState !== WebSocket.OPEN) return false
+        try {
+          ws.send(JSON.stringify(msg))
+          return true
+        } catch {
+          return false
+        }
+      }
+
+      // The certificate is loaded from IndexedDB first, so the connect message goes out asynchronously.
+      const sendConnect = (ws: WebSocket, args: ConnectArgs, failMessage: string) => {
+        buildConnectMessage(args)
+          .then((msg) => {
+            if (get()._ws !== ws || ws.readyState !== WebSocket.OPEN) return
+            ws.send(JSON.stringify(msg))
+          })
+          .catch((err) => {
+            set({ status: 'error', connectError: err instanceof Error ? err.message : failMessage })
+          })
+      }
+
+      // Blob hashes already asked for, so re-renders and repeated UserStates don't refetch the same payload.
+      const requestedBlobs = new Set<string>()
+      const requestBlobs = (params: { userTextures?: UserState[]; userComments?: UserState[]; channelDescriptions?: ChannelState[] }) => {
+        const pick = <T extends { id: number }>(kind: string, items: T[] | undefined, hash: (item: T) => string | undefined) =>
+          (items ?? [])
+            .filter((item) => {
+              const h = hash(item)
+              if (!h || requestedBlobs.has(`${kind}:${item.id}:${h}`)) return false
+              requestedBlobs.add(`${kind}:${item.id}:${h}`)
+              return true
+            })
+            .map((item) => item.id)
+        const userTextures = pick('texture', params.userTextures, (u) => u.textureHash)
+        const userComments = pick('comment', params.userComments, (u) => (u.comment == null ? u.commentHash : undefined))
+        const channelDescriptions = pick('description', params.channelDescriptions, (ch) => (ch.description == null ? ch.descriptionHash : undefined))
+        if (!userTextures.length && !userComments.length && !channelDescriptions.length) return
+        sendControl({ type: 'requestBlob', userTextures, userComments, channelDescriptions })
+      }
+
+      // Plugin data subscribers by data id (null = all); not store state since handlers aren't serializable.
+      const pluginDataHandlers = new Map<string | null, Set<PluginDataHandler>>()
+
+      // Name/id lookups already sent; answers are cached in registeredUserNames/registeredUserIds.
+      const requestedUserLookups = new Set<string>()
+
+      const forgetRegisteredUser = (userId: number) => {
+        set((s) => {
+          const name = s.registeredUserNames[userId]
+          const { [userId]: _name, ...registeredUserNames } = s.registeredUserNames
+          const registeredUserIds = { ...s.registeredUserIds }
+          if (name) delete registeredUserIds[name.toLowerCase()]
+          return { registeredUserNames, registeredUserIds }
+        })
+        requestedUserLookups.delete(`id:${userId}`)
+      }
+
+      const patchThread = (key: string, fn: (thread: ChatThread) => Partial<ChatThread>) => {
+        set((s) => {
+          const thread = s.chatThreads[key] ?? emptyThread()
+          return { chatThreads: { ...s.chatThreads, [key]: { ...thread, ...fn(thread) } } }
+        })
+      }
+
+      const addChatMessage = (key: string, item: ChatItem, peerName?: string) => {
+        const isCurrent = currentThreadKey(get()) === key
+        patchThread(key, (t) => ({ messages: [...t.messages, item], unread: isCurrent ? 0 : t.unread + 1, ...(peerName ? { peerName } : {}) }))
+        const scope = get()._chatScope
+        if (scope && !item.system) {
+          const { system: _system, ...rest } = item
+          appendChatMessage({ ...rest, scope, thread: key, ...(peerName ? { peerName } : {}) }).catch(() => {})
+        }
+      }
+
+      // Loads the next page of history older than what the thread already holds.
+      const loadHistoryPage = (key: string) => {
+        const scope = get()._chatScope
+        const thread = get().chatThreads[key] ?? emptyThread()
+        if (!scope || thread.loadingOlder || (thread.historyLoaded && !thread.hasOlder)) return
+        patchThread(key, () => ({ loadingOlder: true }))
+        const beforeMs = thread.messages[0]?.timestampMs ?? Infinity
+        loadChatMessages(scope, key, beforeMs, HISTORY_PAGE_SIZE)
+          .then((stored) => {
+            if (get()._chatScope !== scope) return
+            patchThread(key, (t) => {
+              const known = new Set(t.messages.map((m) => m.id))
+              const older: ChatItem[] = stored
+                .filter((m) => !known.has(m.id))
+                .map(({ id, senderId, senderName, message, timestampMs, own }) => ({ id, senderId, senderName, message, timestampMs, ...(own ? { own } : {}) }))
+              const peerName = t.peerName ?? [...stored].reverse().find((m) => m.peerName)?.peerName
+              return {
+                messages: [...older, ...t.messages],
+                historyLoaded: true,
+                hasOlder: stored.length === HISTORY_PAGE_SIZE,
+                loadingOlder: false,
+                ...(peerName ? { peerName } : {})
+              }
+            })
+          })
+          .catch(() => {
+            patchThread(key, () => ({ historyLoaded: true, hasOlder: false, loadingOlder: false }))
+          })
+      }
+
+      // Called whenever the visible thread may have changed: clears its unread count and loads its history once.
+      const viewCurrentThread = () => {
+        const key = currentThreadKey(get())
+        if (!key) return
+        const thread = get().chatThreads[key]
+        if (thread?.unread) patchThread(key, () => ({ unread: 0 }))
+        if (!thread?.historyLoaded) loadHistoryPage(key)
+      }
+
       const updateUplinkStats = (force = false) => {
         const now = nowMs()
         if (!force && now - uplink.lastStatsAtMs < 200) return
@@ -179,6 +634,28 @@ export const useGatewayStore = create<GatewayStore>()(
         }))
       }
 
+      const currentVoiceTargetId = () => get().activeVoiceTargetId ?? get().selectedVoiceTargetId
+
+      // (Re-)register a whisper/shout target with the server. Sessions change as users come and go,
+      // so this runs whenever the target is picked and again at the start of each transmission.
+      const registerVoiceTarget = (id: number) => {
+        if (id <= 0) return
+        const cfg = get().voiceTargets.find((t) => t.id === id)
+        if (!cfg) return
+
+        const targets: Array<Record<string, unknown>> = []
+        if (cfg.kind === 'whisper') {
+          const names = new Set(cfg.userNames)
+          const userIds = Object.values(get().usersById)
+            .filter((u) => names.has(u.name))
+            .map((u) => u.id)
+          if (userIds.length) targets.push({ userIds })
+        } else if (cfg.channelId != null) {
+          targets.push({ channelId: cfg.channelId, links: cfg.links, children: cfg.children })
+        }
+        sendControl({ type: 'setVoiceTarget', id, targets })
+      }
+
       const stopUplinkPacer = () => {
         if (uplink.pacerId != null) {
           window.clearInterval(uplink.pacerId)
@@ -227,7 +704,7 @@ export const useGatewayStore = create<GatewayStore>()(
             sent += 1
           }
           updateUplinkStats()
-        }, 20)
+        }, get().opusFrameMs)
       }
 
       return {
@@ -243,15 +720,41 @@ export const useGatewayStore = create<GatewayStore>()(
       selfUserId: null,
 
       selectedChannelId: null,
-      chat: [],
+      chatThreads: {},
+      activeThreadKey: null,
       metrics: {},
 
+      channelAcl: null,
+      banList: null,
+      registeredUsers: null,
+      registeredUserNames: {},
+      registeredUserIds: {},
+      avatarsByUserId: {},
+      userStats: null,
+      contextActions: [],
+      serverConfig: null,
+
+      selfMuted: false,
+      selfDeafened: false,
+      selfPosition: null,
+      positionalContext: null,
+
       voiceMode: 'vad',
+      voiceModeSetByUser: false,
       vadThreshold: 0.02,
       vadHoldTimeMs: 200,
       opusBitrate: 24000,
+      opusChannels: 1,
+      opusFrameMs: 20,
+      opusBackend: 'auto',
       uplinkCongestionControlEnabled: true,
       uplinkMaxBufferedAmountBytes: 256 * 1024,
+      spatialAudioEnabled: true,
+      spatialAudioSetByUser: false,
+
+      voiceTargets: [],
+      selectedVoiceTargetId: 0,
+      activeVoiceTargetId: null,
 
       micEchoCancellation: true,
       micNoiseSuppression: true,
@@ -263,6 +766,7 @@ export const useGatewayStore = create<GatewayStore>()(
       _pingInterval: null,
       _voiceSink: null,
       _lastConnectArgs: null,
+      _chatScope: null,
       _connectedOnce: false,
       _reconnectAttempt: 0,
       _reconnectTimeout: null,
@@ -356,10 +860,8 @@ export const useGatewayStore = create<GatewayStore>()(
             setTimeout(() => {
               const currentWs = get()._ws
               if (currentWs && currentWs.readyState === WebSocket.OPEN) {
-                try {
-                  currentWs.send(JSON.stringify({ type: 'connect', ...auto }))
-                  set({ status: 'connecting' })
-                } catch {}
+                set({ status: 'connecting' })
+                sendConnect(currentWs, auto, 'Failed to send connect()')
               }
             }, 100)
           }
@@ -379,8 +881,13 @@ export const useGatewayStore = create<GatewayStore>()(
             const flags = view.getUint8(6)
             const isLastFrame = (flags & 0x01) !== 0
             const sequence = view.getUint32(7, true)
-            const payloadOffset = 11
+            // Flag 0x02: the speaker position follows the header as three float32 LE.
+            const hasPosition = (flags & 0x02) !== 0
+            const payloadOffset = hasPosition ? 23 : 11
             if (payloadOffset > view.byteLength) return
+            const position: Vec3 | null = hasPosition
+              ? [view.getFloat32(11, true), view.getFloat32(15, true), view.getFloat32(19, true)]
+              : null
             const payloadView = new Uint8Array(buf, payloadOffset)
             const opus = new Uint8Array(payloadView.byteLength)
             opus.set(payloadView)
@@ -408,7 +915,7 @@ export const useGatewayStore = create<GatewayStore>()(
 
             const sink = get()._voiceSink
             if (sink) {
-              sink({ userId, target, sequence, isLastFrame, opus })
+              sink({ userId, target, sequence, isLastFrame, opus, ...(position ? { position } : {}) })
             }
             return
           }
@@ -437,10 +944,15 @@ export const useGatewayStore = create<GatewayStore>()(
             }
             case 'connected': {
               voiceByUser.clear()
+              requestedBlobs.clear()
+              requestedUserLookups.clear()
               const sessionReconnectTimeout = get()._sessionReconnectTimeout
               if (sessionReconnectTimeout) window.clearTimeout(sessionReconnectTimeout)
               const current = get()
+              const connectArgs = current._lastConnectArgs
+              const scope = connectArgs && typeof msg.serverId === 'string' ? chatScope(msg.serverId, connectArgs.identityId ?? connectArgs.username) : null
               set({
+                _chatScope: scope,
                 status: 'connected',
                 connectError: null,
                 _connectedOnce: true,
@@ -451,6 +963,43 @@ export const useGatewayStore = create<GatewayStore>()(
                 selectedChannelId: current.selectedChannelId ?? msg.rootChannelId ?? null,
                 speakingByUserId: {},
               })
+
+              registerVoiceTarget(current.selectedVoiceTargetId)
+
+              // Private conversations from earlier sessions show up in the sidebar; their messages load when opened.
+              if (scope) {
+                listChatThreads(scope)
+                  .then((keys) => {
+                    if (get()._chatScope !== scope) return
+                    const userKeys = keys.filter((key) => parseThreadKey(key)?.kind === 'user')
+                    set((s) => {
+                      const chatThreads = { ...s.chatThreads }
+                      for (const key of userKeys) {
+                        if (!chatThreads[key]) chatThreads[key] = emptyThread()
+                      }
+                      return { chatThreads }
+                    })
+                    // The newest message names the peer for the sidebar.
+                    for (const key of userKeys) {
+                      loadChatMessages(scope, key, Infinity, 1)
+                        .then(([newest]) => {
+                          const peerName = newest?.peerName
+                          if (peerName && get()._chatScope === scope) patchThread(key, (t) => (t.peerName ? {} : { peerName }))
+                        })
+                        .catch(() => {})
+                    }
+                  })
+                  .catch(() => {})
+              }
+
+              // A new Mumble session starts unmuted; re-apply what the user chose before the reconnect.
+              if (current.selfDeafened) {
+                sendControl({ type: 'setSelfDeaf', deaf: true })
+              } else if (current.selfMuted) {
+                sendControl({ type: 'setSelfMute', mute: true })
+              }
+              if (current.positionalContext) sendControl({ type: 'setPluginContext', ...current.positionalContext })
+              if (current.selfPosition) sendControl({ type: 'setPosition', position: current.selfPosition.position })
               return
             }
             case 'disconnected': {
@@ -470,7 +1019,18 @@ export const useGatewayStore = create<GatewayStore>()(
                 rootChannelId: null,
                 selfUserId: null,
                 selectedChannelId: null,
-                chat: [],
+                chatThreads: {},
+                activeThreadKey: null,
+                _chatScope: null,
+                channelAcl: null,
+                banList: null,
+                registeredUsers: null,
+                registeredUserNames: {},
+                registeredUserIds: {},
+                avatarsByUserId: {},
+                userStats: null,
+                contextActions: [],
+                serverConfig: null,
                 metrics: {},
               })
 
@@ -482,12 +1042,8 @@ export const useGatewayStore = create<GatewayStore>()(
                   const args = get()._lastConnectArgs
                   const currentWs = get()._ws
                   if (!args || !currentWs || currentWs.readyState !== WebSocket.OPEN) return
-                  try {
-                    set({ status: 'connecting', connectError: null })
-                    currentWs.send(JSON.stringify({ type: 'connect', ...args }))
-                  } catch {
-                    set({ status: 'reconnecting', connectError: '重连失败，等待下一次重试…' })
-                  }
+                  set({ status: 'connecting', connectError: null })
+                  sendConnect(currentWs, args, '重连失败')
                 }, delayMs)
                 set({ _sessionReconnectAttempt: attempt, _sessionReconnectTimeout: id })
               }
@@ -498,10 +1054,10 @@ export const useGatewayStore = create<GatewayStore>()(
               const usersById: Record<number, UserState> = {}
 
               for (const ch of msg.channels ?? []) {
-                channelsById[ch.id] = { id: ch.id, name: ch.name ?? '', parentId: ch.parentId ?? null }
+                channelsById[ch.id] = toChannelState(ch)
               }
               for (const u of msg.users ?? []) {
-                usersById[u.id] = { id: u.id, name: u.name ?? '', channelId: u.channelId ?? null }
+                usersById[u.id] = toUserState(u)
               }
 
               const current = get()
@@ -530,6 +1086,8 @@ export const useGatewayStore = create<GatewayStore>()(
               }
 
               set({ channelsById, usersById, selectedChannelId })
+              viewCurrentThread()
+              requestBlobs({ userTextures: Object.values(usersById) })
               return
             }
             case 'channelUpsert': {
@@ -538,7 +1096,7 @@ export const useGatewayStore = create<GatewayStore>()(
               set((s) => ({
                 channelsById: {
                   ...s.channelsById,
-                  [ch.id]: { id: ch.id, name: ch.name ?? '', parentId: ch.parentId ?? null },
+                  [ch.id]: toChannelState(ch),
                 },
               }))
               return
@@ -548,20 +1106,26 @@ export const useGatewayStore = create<GatewayStore>()(
               if (typeof id !== 'number') return
               set((s) => {
                 const next = { ...s.channelsById }
+                const parentId = next[id]?.parentId ?? s.rootChannelId
                 delete next[id]
-                return { channelsById: next }
+                const selectedChannelId = s.selectedChannelId === id ? parentId : s.selectedChannelId
+                return { channelsById: next, selectedChannelId }
               })
+              viewCurrentThread()
               return
             }
             case 'userUpsert': {
               const u = msg.user
               if (!u) return
-              set((s) => ({
-                usersById: {
-                  ...s.usersById,
-                  [u.id]: { id: u.id, name: u.name ?? '', channelId: u.channelId ?? null },
-                },
-              }))
+              const user = toUserState(u)
+              set((s) => {
+                const usersById = { ...s.usersById, [u.id]: user }
+                if (user.textureHash || !s.avatarsByUserId[u.id]) return { usersById }
+                const avatarsByUserId = { ...s.avatarsByUserId }
+                delete avatarsByUserId[u.id]
+                return { usersById, avatarsByUserId }
+              })
+              requestBlobs({ userTextures: [user] })
               return
             }
             case 'userRemove': {
@@ -572,7 +1136,9 @@ export const useGatewayStore = create<GatewayStore>()(
                 delete next[id]
                 const nextSpeaking = { ...s.speakingByUserId }
                 delete nextSpeaking[id]
-                return { usersById: next, speakingByUserId: nextSpeaking }
+                const nextAvatars = { ...s.avatarsByUserId }
+                delete nextAvatars[id]
+                return { usersById: next, speakingByUserId: nextSpeaking, avatarsByUserId: nextAvatars }
               })
               return
             }
@@ -581,17 +1147,124 @@ export const useGatewayStore = create<GatewayStore>()(
               const message = typeof msg.message === 'string' ? msg.message : ''
               const timestampMs = typeof msg.timestampMs === 'number' ? msg.timestampMs : Date.now()
               const id = `${timestampMs}-${Math.random().toString(16).slice(2)}`
+              const sender = get().usersById[senderId]
+              const senderName = sender?.name ?? (senderId === 0 ? 'Server' : `#${senderId}`)
+              const targetUsers: number[] = Array.isArray(msg.targetUsers) ? msg.targetUsers : []
+              const targetChannels: number[] = Array.isArray(msg.targetChannels) ? msg.targetChannels : []
+              const targetTrees: number[] = Array.isArray(msg.targetTrees) ? msg.targetTrees : []
+
+              // Messages addressed to sessions are private (to us); otherwise file them under the channel they went to.
+              const channelId = targetTrees[0] ?? targetChannels[0]
+              const key = targetUsers.length
+                ? userThreadKey(sender ?? { name: senderName })
+                : channelId != null
+                  ? channelThreadKey(channelId)
+                  : currentThreadKey(get())
+              if (!key) return
+
               const selfUserId = get().selfUserId
               if (
                 selfUserId != null &&
                 senderId === selfUserId &&
-                get().chat.some(
+                get().chatThreads[key]?.messages.some(
                   (c) => c.senderId === senderId && c.message === message && Math.abs(c.timestampMs - timestampMs) < 2000
                 )
               ) {
                 return
               }
-              set((s) => ({ chat: [...s.chat, { id, senderId, message, timestampMs }].slice(-200) }))
+              addChatMessage(
+                key,
+                { id, senderId, senderName, message, timestampMs, ...(senderId === selfUserId ? { own: true } : {}) },
+                targetUsers.length ? senderName : undefined
+              )
+              return
+            }
+            case 'userTexture': {
+              if (typeof msg.userId !== 'number' || typeof msg.texture !== 'string') return
+              if (typeof msg.textureHash === 'string') requestedBlobs.add(`texture:${msg.userId}:${msg.textureHash}`)
+              const url = avatarDataUrl(msg.texture)
+              set((s) => {
+                const avatarsByUserId = { ...s.avatarsByUserId }
+                if (url) avatarsByUserId[msg.userId] = url
+                else delete avatarsByUserId[msg.userId]
+                return { avatarsByUserId }
+              })
+              return
+            }
+            case 'userStats': {
+              const stats = msg.stats
+              if (!stats || typeof stats.userId !== 'number') return
+              // Stats-only refreshes leave out the client details; keep the ones from the full reply.
+              set((s) => {
+                const prev = s.userStats
+                if (!stats.statsOnly || !prev || prev.userId !== stats.userId) return { userStats: stats }
+                return { userStats: { ...prev, ...stats } }
+              })
+              return
+            }
+            case 'serverConfig': {
+              const config = msg.config
+              if (!config || typeof config !== 'object') return
+              set({ serverConfig: config })
+              // Suggestions only act as defaults: never override a mode the user picked.
+              if (typeof config.suggestPushToTalk === 'boolean' && !get().voiceModeSetByUser) {
+                set({ voiceMode: config.suggestPushToTalk ? 'ptt' : 'vad' })
+              }
+              if (typeof config.suggestPositional === 'boolean' && !get().spatialAudioSetByUser) {
+                set({ spatialAudioEnabled: config.suggestPositional })
+              }
+              return
+            }
+            case 'contextActions': {
+              if (Array.isArray(msg.actions)) set({ contextActions: msg.actions })
+              return
+            }
+            case 'pluginDataRecv': {
+              if (typeof msg.senderId !== 'number' || typeof msg.dataId !== 'string' || typeof msg.data !== 'string') return
+              const data: PluginDataMessage = { senderId: msg.senderId, dataId: msg.dataId, data: base64ToBytes(msg.data) }
+              for (const handler of [...(pluginDataHandlers.get(msg.dataId) ?? []), ...(pluginDataHandlers.get(null) ?? [])]) {
+                try {
+                  handler(data)
+                } catch (err) {
+                  // eslint-disable-next-line no-console
+                  console.warn('[plugin data handler]', err)
+                }
+              }
+              return
+            }
+            case 'userList': {
+              if (!Array.isArray(msg.users)) return
+              set((s) => {
+                const registeredUserNames = { ...s.registeredUserNames }
+                const registeredUserIds = { ...s.registeredUserIds }
+                for (const u of msg.users) {
+                  registeredUserNames[u.userId] = u.name
+                  registeredUserIds[u.name.toLowerCase()] = u.userId
+                }
+                return { registeredUsers: msg.users, registeredUserNames, registeredUserIds }
+              })
+              return
+            }
+            case 'usersResolved': {
+              set((s) => {
+                const registeredUserNames = { ...s.registeredUserNames }
+                const registeredUserIds = { ...s.registeredUserIds }
+                for (const u of msg.users ?? []) {
+                  registeredUserNames[u.userId] = u.name
+                  registeredUserIds[u.name.toLowerCase()] = u.userId
+                }
+                for (const id of msg.unknownIds ?? []) registeredUserNames[id] = null
+                for (const name of msg.unknownNames ?? []) registeredUserIds[name.toLowerCase()] = null
+                return { registeredUserNames, registeredUserIds }
+              })
+              return
+            }
+            case 'banList': {
+              if (Array.isArray(msg.bans)) set({ banList: msg.bans })
+              return
+            }
+            case 'acl': {
+              if (msg.acl && typeof msg.acl.channelId === 'number') set({ channelAcl: msg.acl })
               return
             }
             case 'metrics': {
@@ -633,10 +1306,9 @@ export const useGatewayStore = create<GatewayStore>()(
 
               const timestampMs = Date.now()
               const id = `${timestampMs}-system-${Math.random().toString(16).slice(2)}`
-              set((s) => ({
-                connectError: pretty,
-                chat: [...s.chat, { id, senderId: 0, message: pretty, timestampMs }].slice(-200),
-              }))
+              set({ connectError: pretty })
+              const key = currentThreadKey(get())
+              if (key) addChatMessage(key, { id, senderId: 0, senderName: 'System', message: pretty, timestampMs, system: true })
               return
             }
           }
@@ -672,7 +1344,18 @@ export const useGatewayStore = create<GatewayStore>()(
             rootChannelId: null,
             selfUserId: null,
             selectedChannelId: null,
-            chat: [],
+            chatThreads: {},
+            activeThreadKey: null,
+            _chatScope: null,
+            channelAcl: null,
+            banList: null,
+            registeredUsers: null,
+            registeredUserNames: {},
+            registeredUserIds: {},
+            avatarsByUserId: {},
+            userStats: null,
+            contextActions: [],
+            serverConfig: null,
             metrics: {},
             _reconnectAttempt: attempt,
             _reconnectTimeout: id,
@@ -705,8 +1388,21 @@ export const useGatewayStore = create<GatewayStore>()(
           rootChannelId: null,
           selfUserId: null,
           selectedChannelId: null,
-          chat: [],
+          chatThreads: {},
+          activeThreadKey: null,
+          _chatScope: null,
+          channelAcl: null,
+          banList: null,
+          registeredUsers: null,
+          registeredUserNames: {},
+          registeredUserIds: {},
+          avatarsByUserId: {},
+          userStats: null,
+          contextActions: [],
+          serverConfig: null,
           metrics: {},
+          selfMuted: false,
+          selfDeafened: false,
           _lastConnectArgs: null,
           _connectedOnce: false,
           _reconnectAttempt: 0,
@@ -725,11 +1421,7 @@ export const useGatewayStore = create<GatewayStore>()(
           return
         }
         set({ status: 'connecting', connectError: null })
-        try {
-          ws.send(JSON.stringify({ type: 'connect', ...args }))
-        } catch {
-          set({ status: 'reconnecting', connectError: 'Failed to send connect() (will retry)' })
-        }
+        sendConnect(ws, args, 'Failed to send connect()')
       },
 
       clearError: () => set({ connectError: null }),
@@ -740,7 +1432,14 @@ export const useGatewayStore = create<GatewayStore>()(
         const ws = get()._ws
         if (!ws || ws.readyState !== WebSocket.OPEN) return
 
-        const target = params?.target ?? 0
+        // The server drops voice from self-muted users anyway; don't spend uplink on it.
+        if (get().selfMuted || get().selfDeafened) return
+
+        const target = params?.target ?? currentVoiceTargetId()
+        if (!uplink.talking) {
+          uplink.talking = true
+          registerVoiceTarget(target)
+        }
 
         const headerBytes = 4
         const buffer = new ArrayBuffer(headerBytes + opus.byteLength)
@@ -780,9 +1479,10 @@ export const useGatewayStore = create<GatewayStore>()(
         }
 
         uplink.queue.push(buffer)
-        // Bound in-memory queue (realtime > completeness).
-        if (uplink.queue.length > 10) {
-          const drop = uplink.queue.length - 10
+        // Bound in-memory queue to ~200ms of audio (realtime > completeness).
+        const maxQueued = Math.max(2, Math.round(200 / get().opusFrameMs))
+        if (uplink.queue.length > maxQueued) {
+          const drop = uplink.queue.length - maxQueued
           uplink.droppedTotal += drop
           uplink.queue.splice(0, drop)
         }
@@ -791,6 +1491,7 @@ export const useGatewayStore = create<GatewayStore>()(
       },
 
       sendMicEnd: () => {
+        uplink.talking = false
         const ws = get()._ws
         if (!ws || ws.readyState !== WebSocket.OPEN) return
 
@@ -806,7 +1507,23 @@ export const useGatewayStore = create<GatewayStore>()(
         } catch {}
       },
 
-      selectChannel: (channelId) => set({ selectedChannelId: channelId }),
+      selectChannel: (channelId) => {
+        set({ selectedChannelId: channelId, activeThreadKey: null })
+        viewCurrentThread()
+      },
+
+      openThread: (key) => {
+        set({ activeThreadKey: key })
+        viewCurrentThread()
+      },
+
+      loadOlderMessages: (key) => loadHistoryPage(key),
+
+      searchChatHistory: async (query) => {
+        const scope = get()._chatScope
+        if (!scope) return []
+        return searchChatMessages(scope, query, 100)
+      },
 
       joinSelectedChannel: () => {
         const ws = get()._ws
@@ -817,27 +1534,245 @@ export const useGatewayStore = create<GatewayStore>()(
         } catch {}
       },
 
-      sendTextToSelectedChannel: (message) => {
+      sendTextToSelectedChannel: (message, opts) => {
         const ws = get()._ws
         if (!ws || ws.readyState !== WebSocket.OPEN) return
 
         const channelId = get().selectedChannelId ?? undefined
+        // A tree target reaches the channel and all of its subchannels.
+        const target = opts?.subchannels && channelId != null ? { treeIds: [channelId] } : { channelId }
         try {
-          ws.send(JSON.stringify({ type: 'textSend', channelId, message }))
+          ws.send(JSON.stringify({ type: 'textSend', ...target, message }))
         } catch {}
+        if (channelId == null) return
+
+        const selfUserId = get().selfUserId
+        const senderName = selfUserId != null ? (get().usersById[selfUserId]?.name ?? '') : ''
+        const timestampMs = Date.now()
+        const id = `${timestampMs}-local-${Math.random().toString(16).slice(2)}`
+        addChatMessage(channelThreadKey(channelId), { id, senderId: selfUserId ?? 0, senderName, message, timestampMs, own: true })
+      },
+
+      sendTextToUser: (userId, message) => {
+        const peer = get().usersById[userId]
+        if (!peer) return
+        if (!sendControl({ type: 'textSend', userId, message })) return
 
         const selfUserId = get().selfUserId
+        const senderName = selfUserId != null ? (get().usersById[selfUserId]?.name ?? '') : ''
         const timestampMs = Date.now()
         const id = `${timestampMs}-local-${Math.random().toString(16).slice(2)}`
+        addChatMessage(userThreadKey(peer), { id, senderId: selfUserId ?? 0, senderName, message, timestampMs, own: true }, peer.name)
+      },
+
+      openPrivateThread: (userId) => {
+        const peer = get().usersById[userId]
+        if (!peer || userId === get().selfUserId) return
+        const key = userThreadKey(peer)
+        patchThread(key, () => ({ peerName: peer.name }))
+        get().openThread(key)
+      },
+
+      setSelfMute: (mute) => {
+        // Unmuting while deafened also undeafens (the gateway sends both flags).
+        set((s) => ({ selfMuted: mute, selfDeafened: mute ? s.selfDeafened : false }))
+        if (get().status !== 'connected') return
+        sendControl({ type: 'setSelfMute', mute })
+      },
+
+      setSelfDeaf: (deaf) => {
+        set({ selfDeafened: deaf })
+        if (get().status !== 'connected') return
+        sendControl({ type: 'setSelfDeaf', deaf })
+        // Deafening forces self-mute on the server; restore our own mute choice when undeafening.
+        if (!deaf) sendControl({ type: 'setSelfMute', mute: get().selfMuted })
+      },
+
+      saveVoiceTarget: (target) => {
+        if (!Number.isInteger(target.id) || target.id < 1 || target.id > 30) return
+        set((s) => {
+          const others = s.voiceTargets.filter((t) => t.id !== target.id)
+          // A key can only trigger one target.
+          const voiceTargets = [...others.map((t) => (target.key && t.key === target.key ? { ...t, key: null } : t)), target]
+          return { voiceTargets: voiceTargets.sort((a, b) => a.id - b.id) }
+        })
+        if (get().status === 'connected' && currentVoiceTargetId() === target.id) registerVoiceTarget(target.id)
+      },
+
+      removeVoiceTarget: (id) => {
         set((s) => ({
-          chat: [...s.chat, { id, senderId: selfUserId ?? 0, message, timestampMs }].slice(-200),
+          voiceTargets: s.voiceTargets.filter((t) => t.id !== id),
+          selectedVoiceTargetId: s.selectedVoiceTargetId === id ? 0 : s.selectedVoiceTargetId,
+          activeVoiceTargetId: s.activeVoiceTargetId === id ? null : s.activeVoiceTargetId,
         }))
       },
 
-      setVoiceMode: (mode) => set({ voiceMode: mode }),
+      selectVoiceTarget: (id) => {
+        const valid = id === 0 || get().voiceTargets.some((t) => t.id === id)
+        set({ selectedVoiceTargetId: valid ? id : 0 })
+        if (valid && get().status === 'connected') registerVoiceTarget(id)
+      },
+
+      setActiveVoiceTarget: (id) => {
+        if (id != null && !get().voiceTargets.some((t) => t.id === id)) return
+        set({ activeVoiceTargetId: id })
+        if (id != null && get().status === 'connected') registerVoiceTarget(id)
+      },
+
+      createChannel: (params) => {
+        const name = params.name.trim()
+        if (!name) return
+        sendControl({ type: 'channelCreate', ...params, name })
+      },
+
+      updateChannel: (params) => {
+        sendControl({ type: 'channelUpdate', ...params })
+      },
+
+      removeChannel: (channelId) => {
+        sendControl({ type: 'channelRemove', channelId })
+      },
+
+      kickUser: (userId, reason) => {
+        sendControl({ type: 'userKick', userId, ...(reason ? { reason } : {}) })
+      },
+
+      banUser: (userId, reason, durationSeconds) => {
+        sendControl({ type: 'userBan', userId, ...(reason ? { reason } : {}), ...(durationSeconds ? { duration: durationSeconds } : {}) })
+      },
+
+      moderateUser: (userId, params) => {
+        sendControl({ type: 'userModerate', userId, ...params })
+      },
+
+      registerSelf: () => {
+        sendControl({ type: 'registerSelf' })
+      },
+
+      queryPermissions: (channelId) => {
+        sendControl({ type: 'queryPermissions', channelId })
+      },
+
+      queryAcl: (channelId) => {
+        set({ channelAcl: null })
+        sendControl({ type: 'queryAcl', channelId })
+      },
+
+      updateAcl: (acl) => {
+        sendControl({ type: 'updateAcl', acl })
+      },
+
+      queryBanList: () => {
+        set({ banList: null })
+        sendControl({ type: 'banListQuery' })
+      },
+
+      updateBanList: (bans) => {
+        set({ banList: bans })
+        sendControl({ type: 'banListUpdate', bans })
+      },
+
+      queryUserList: () => {
+        set({ registeredUsers: null })
+        sendControl({ type: 'userListQuery' })
+      },
+
+      renameRegisteredUser: (userId, name) => {
+        forgetRegisteredUser(userId)
+        sendControl({ type: 'userListUpdate', rename: [{ userId, name }] })
+      },
+
+      unregisterUser: (userId) => {
+        forgetRegisteredUser(userId)
+        sendControl({ type: 'userListUpdate', remove: [userId] })
+      },
+
+      resolveUsers: ({ ids, names }) => {
+        const { registeredUserNames, registeredUserIds } = get()
+        const pickIds = (ids ?? []).filter((id) => {
+          const key = `id:${id}`
+          if (registeredUserNames[id] !== undefined || requestedUserLookups.has(key)) return false
+          requestedUserLookups.add(key)
+          return true
+        })
+        const pickNames = (names ?? []).map((name) => name.trim()).filter((name) => {
+          const key = `name:${name.toLowerCase()}`
+          if (!name || registeredUserIds[name.toLowerCase()] !== undefined || requestedUserLookups.has(key)) return false
+          requestedUserLookups.add(key)
+          return true
+        })
+        if (!pickIds.length && !pickNames.length) return
+        sendControl({ type: 'resolveUsers', ...(pickIds.length ? { ids: pickIds } : {}), ...(pickNames.length ? { names: pickNames } : {}) })
+      },
+
+      requestUserComment: (userId) => {
+        const u = get().usersById[userId]
+        if (u) requestBlobs({ userComments: [u] })
+      },
+
+      requestChannelDescription: (channelId) => {
+        const ch = get().channelsById[channelId]
+        if (ch) requestBlobs({ channelDescriptions: [ch] })
+      },
+
+      setSelfComment: (comment) => {
+        sendControl({ type: 'setSelfComment', comment })
+      },
+
+      setSelfAvatar: async (image) => {
+        const texture = image ? await encodeAvatar(image) : ''
+        sendControl({ type: 'setSelfTexture', texture })
+      },
+
+      queryUserStats: (userId, statsOnly) => {
+        if (!statsOnly && get().userStats?.userId !== userId) set({ userStats: null })
+        sendControl({ type: 'userStatsQuery', userId, ...(statsOnly ? { statsOnly } : {}) })
+      },
+
+      triggerContextAction: (action, target) => {
+        sendControl({ type: 'contextAction', action, ...target })
+      },
+
+      sendPluginData: (receiverIds, dataId, data) => {
+        const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data
+        if (!dataId || dataId.length > PLUGIN_DATA_ID_MAX_LENGTH || bytes.length > PLUGIN_DATA_MAX_BYTES) return false
+        return sendControl({ type: 'pluginDataSend', receiverIds, dataId, data: bytesToBase64(bytes) })
+      },
+
+      subscribePluginData: (dataId, handler) => {
+        let handlers = pluginDataHandlers.get(dataId)
+        if (!handlers) pluginDataHandlers.set(dataId, (handlers = new Set()))
+        handlers.add(handler)
+        return () => {
+          handlers.delete(handler)
+          if (!handlers.size && pluginDataHandlers.get(dataId) === handlers) pluginDataHandlers.delete(dataId)
+        }
+      },
+
+      setSelfPosition: (position) => {
+        const prev = get().selfPosition?.position
+        set({ selfPosition: position })
+        const next = position?.position ?? null
+        if (next ? prev && next.every((v, i) => v === prev[i]) : !prev) return
+        sendControl({ type: 'setPosition', position: next })
+      },
+
+      setPositionalContext: (context, identity) => {
+        const positionalContext = context != null ? { context, ...(identity != null ? { identity } : {}) } : null
+        set({ positionalContext })
+        // An empty context stops the server from relaying our position to anyone.
+        sendControl({ type: 'setPluginContext', context: context ?? '', ...(identity != null ? { identity } : {}) })
+      },
+
+      setSpatialAudioEnabled: (enabled) => set({ spatialAudioEnabled: enabled, spatialAudioSetByUser: true }),
+
+      setVoiceMode: (mode) => set({ voiceMode: mode, voiceModeSetByUser: true }),
       setVadThreshold: (val) => set({ vadThreshold: val }),
       setVadHoldTimeMs: (val) => set({ vadHoldTimeMs: val }),
       setOpusBitrate: (bitrate) => set({ opusBitrate: bitrate }),
+      setOpusChannels: (channels) => set({ opusChannels: channels }),
+      setOpusFrameMs: (ms) => set({ opusFrameMs: ms }),
+      setOpusBackend: (backend) => set({ opusBackend: backend }),
       setUplinkCongestionControlEnabled: (enabled) => set({ uplinkCongestionControlEnabled: enabled }),
       setUplinkMaxBufferedAmountBytes: (bytes) => set({ uplinkMaxBufferedAmountBytes: bytes }),
       setMicEchoCancellation: (val) => set({ micEchoCancellation: val }),
@@ -854,16 +1789,24 @@ export const useGatewayStore = create<GatewayStore>()(
         servers: state.servers,
         _lastConnectArgs: state._lastConnectArgs,
         voiceMode: state.voiceMode,
+        voiceModeSetByUser: state.voiceModeSetByUser,
         vadThreshold: state.vadThreshold,
         vadHoldTimeMs: state.vadHoldTimeMs,
         opusBitrate: state.opusBitrate,
+        opusChannels: state.opusChannels,
+        opusFrameMs: state.opusFrameMs,
+        opusBackend: state.opusBackend,
         uplinkCongestionControlEnabled: state.uplinkCongestionControlEnabled,
         uplinkMaxBufferedAmountBytes: state.uplinkMaxBufferedAmountBytes,
+        spatialAudioEnabled: state.spatialAudioEnabled,
+        spatialAudioSetByUser: state.spatialAudioSetByUser,
         micEchoCancellation: state.micEchoCancellation,
         micNoiseSuppression: state.micNoiseSuppression,
         micAutoGainControl: state.micAutoGainControl,
         rnnoiseEnabled: state.rnnoiseEnabled,
         selectedInputDeviceId: state.selectedInputDeviceId,
+        voiceTargets: state.voiceTargets,
+        selectedVoiceTargetId: state.selectedVoiceTargetId,
       }),
     }
   )
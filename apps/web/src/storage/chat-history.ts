@@ -0,0 +1,94 @@
+'use client'
+
+import { openDb, withStore } from './idb'
+
+// Chat history is kept per "scope" (server + identity) and "thread" (a channel or a private peer).
+export type StoredChatMessage = {
+  id: string
+  scope: string
+  thread: string
+  senderId: number
+  senderName: string
+  message: string
+  timestampMs: number
+  own?: boolean
+  // Private threads: the peer's name at the time (thread keys identify the account, not the name).
+  peerName?: string
+}
+
+const STORE = 'chatMessages'
+
+export function chatScope(serverId: string, identity: string): string {
+  return `${serverId}/${identity}`
+}
+
+export async function appendChatMessage(msg: StoredChatMessage): Promise<void> {
+  await withStore(STORE, 'readwrite', (store) => store.put(msg))
+}
+
+// Walks `index` from the newest entry in `range` backwards until `visit` returns false.
+async function walkNewestFirst(indexName: string, range: IDBKeyRange, visit: (msg: StoredChatMessage) => boolean): Promise<void> {
+  const db = await openDb()
+  await new Promise<void>((resolve, reject) => {
+    const req = db.transaction(STORE, 'readonly').objectStore(STORE).index(indexName).openCursor(range, 'prev')
+    req.onsuccess = () => {
+      const cursor = req.result
+      if (!cursor || !visit(cursor.value as StoredChatMessage)) {
+        resolve()
+        return
+      }
+      cursor.continue()
+    }
+    req.onerror = () => reject(req.error ?? new Error('IndexedDB cursor failed'))
+  })
+}
+
+// Up to `limit` messages of a thread older than `beforeMs`, oldest first.
+export async function loadChatMessages(scope: string, thread: string, beforeMs: number, limit: number): Promise<StoredChatMessage[]> {
+  const out: StoredChatMessage[] = []
+  const range = IDBKeyRange.bound([scope, thread, -Infinity], [scope, thread, beforeMs], false, true)
+  await walkNewestFirst('byThread', range, (msg) => {
+    out.push(msg)
+    return out.length < limit
+  })
+  return out.reverse()
+}
+
+function plainText(html: string): string {
+  return html.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ')
+}
+
+// Case-insensitive match on message text and sender name across all threads of the scope, newest first.
+export async function searchChatMessages(scope: string, query: string, limit: number): Promise<StoredChatMessage[]> {
+  const needle = query.trim().toLowerCase()
+  if (!needle) return []
+  const out: StoredChatMessage[] = []
+  const range = IDBKeyRange.bound([scope, -Infinity], [scope, Infinity])
+  await walkNewestFirst('byScope', range, (msg) => {
+    if (plainText(msg.message).toLowerCase().includes(needle) || msg.senderName.toLowerCase().includes(needle)) out.push(msg)
+    return out.length < limit
+  })
+  return out
+}
+
+// Distinct thread keys of a scope (skips over each thread's messages instead of reading them).
+export async function listChatThreads(scope: string): Promise<string[]> {
+  const db = await openDb()
+  const out: string[] = []
+  await new Promise<void>((resolve, reject) => {
+    const range = IDBKeyRange.bound([scope, '', -Infinity], [scope, [], Infinity])
+    const req = db.transaction(STORE, 'readonly').objectStore(STORE).index('byThread').openKeyCursor(range)
+    req.onsuccess = () => {
+      const cursor = req.result
+      if (!cursor) {
+        resolve()
+        return
+      }
+      const thread = (cursor.key as [string, string, number])[1]
+      out.push(thread)
+      cursor.continue([scope, thread, Infinity])
+    }
+    req.onerror = () => reject(req.error ?? new Error('IndexedDB cursor failed'))
+  })
+  return out
+}
@@ -0,0 +1,62 @@
+'use client'
+
+// Minimal promise helpers around IndexedDB (no wrapper library needed for our few stores).
+
+const DB_NAME = 'mumble-web'
+
+type Upgrade = (db: IDBDatabase, oldVersion: number) => void
+
+const upgrades: Upgrade[] = [
+  // v1: client certificates
+  (db) => {
+    db.createObjectStore('identities', { keyPath: 'id' })
+  },
+  // v2: chat history
+  (db) => {
+    const store = db.createObjectStore('chatMessages', { keyPath: 'id' })
+    store.createIndex('byThread', ['scope', 'thread', 'timestampMs'])
+    store.createIndex('byScope', ['scope', 'timestampMs'])
+  }
+]
+
+const DB_VERSION = upgrades.length
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+export function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'))
+      return
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION)
+    req.onupgradeneeded = (event) => {
+      const db = req.result
+      for (let v = event.oldVersion; v < upgrades.length; v++) upgrades[v]?.(db, event.oldVersion)
+    }
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error ?? new Error('Failed to open IndexedDB'))
+  })
+  dbPromise.catch(() => {
+    dbPromise = null
+  })
+  return dbPromise
+}
+
+export function idbRequest<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error ?? new Error('IndexedDB request failed'))
+  })
+}
+
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb()
+  const tx = db.transaction(storeName, mode)
+  return idbRequest(fn(tx.objectStore(storeName)))
+}
@@ -0,0 +1,47 @@
+// Mumble servers cap texture size (128 KiB by default), so uploads are scaled down and re-encoded.
+const AVATAR_MAX_SIZE = 128
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const bin = atob(base64)
+  const out = new Uint8Array(bin.length)
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i)
+  return out
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let bin = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  return btoa(bin)
+}
+
+// Textures are raw image files; the MIME type is sniffed from the magic bytes. Returns null for
+// formats browsers can't show (e.g. the raw BGRA textures of very old clients).
+export function avatarDataUrl(base64: string): string | null {
+  if (!base64) return null
+  const head = base64ToBytes(base64.slice(0, 16))
+  let mime: string | null = null
+  if (head[0] === 0x89 && head[1] === 0x50 && head[2] === 0x4e && head[3] === 0x47) mime = 'image/png'
+  else if (head[0] === 0xff && head[1] === 0xd8) mime = 'image/jpeg'
+  else if (head[0] === 0x47 && head[1] === 0x49 && head[2] === 0x46) mime = 'image/gif'
+  else if (head[0] === 0x52 && head[1] === 0x49 && head[2] === 0x46 && head[3] === 0x46 && head[8] === 0x57) mime = 'image/webp'
+  return mime ? `data:${mime};base64,${base64}` : null
+}
+
+// Scales the image to fit AVATAR_MAX_SIZE and returns it as base64 PNG.
+export async function encodeAvatar(file: Blob): Promise<string> {
+  const bitmap = await createImageBitmap(file)
+  try {
+    const scale = Math.min(1, AVATAR_MAX_SIZE / Math.max(bitmap.width, bitmap.height))
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale))
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale))
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('Canvas is not available')
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'))
+    if (!blob) throw new Error('Failed to encode image')
+    return bytesToBase64(new Uint8Array(await blob.arrayBuffer()))
+  } finally {
+    bitmap.close()
+  }
+}
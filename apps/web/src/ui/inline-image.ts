@@ -0,0 +1,37 @@
+import { bytesToBase64 } from './avatar'
+
+// Largest edge of pasted pictures; the server's image_message_length usually forces smaller ones anyway.
+const INLINE_IMAGE_MAX_SIZE = 1024
+const JPEG_QUALITIES = [0.85, 0.7, 0.5]
+
+// Re-encodes the image as JPEG and shrinks it until the resulting `<img>` message fits `maxLength`
+// (null = unlimited). Throws when even a tiny version doesn't fit.
+export async function encodeInlineImage(file: Blob, maxLength: number | null): Promise<string> {
+  const bitmap = await createImageBitmap(file)
+  try {
+    let scale = Math.min(1, INLINE_IMAGE_MAX_SIZE / Math.max(bitmap.width, bitmap.height))
+    const canvas = document.createElement('canvas')
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('Canvas is not available')
+
+    while (Math.max(bitmap.width, bitmap.height) * scale >= 16) {
+      canvas.width = Math.max(1, Math.round(bitmap.width * scale))
+      canvas.height = Math.max(1, Math.round(bitmap.height * scale))
+      // JPEG has no alpha; flatten transparent pictures onto white instead of black.
+      ctx.fillStyle = '#fff'
+      ctx.fillRect(0, 0, canvas.width, canvas.height)
+      ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+
+      for (const quality of JPEG_QUALITIES) {
+        const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', quality))
+        if (!blob) throw new Error('Failed to encode image')
+        const html = `<img src="data:image/jpeg;base64,${bytesToBase64(new Uint8Array(await blob.arrayBuffer()))}" />`
+        if (maxLength == null || html.length <= maxLength) return html
+      }
+      scale *= 0.7
+    }
+    throw new Error('Image is too large for this server')
+  } finally {
+    bitmap.close()
+  }
+}
@@ -0,0 +1,90 @@
+import { escapeHtml } from './sanitize-html'
+
+// Small Markdown dialect for the chat composer: **bold**, *italics*, ~~strike~~, `code`, fenced code
+// blocks, [links](https://…), bullet/numbered lists and > quotes. The output stays within the HTML
+// subset Mumble clients render (and our sanitizer keeps).
+
+const SAFE_LINK = /^(https?:|mailto:)/i
+const FENCE = /^\s*```/
+const BULLET = /^\s*[-*+]\s+(.*)$/
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/
+const QUOTE = /^\s*>\s?(.*)$/
+
+function renderEmphasis(html: string): string {
+  return html
+    .replace(/\*\*(?=\S)(.+?)\*\*/g, '<b>$1</b>')
+    .replace(/__(?=\S)(.+?)__/g, '<b>$1</b>')
+    .replace(/~~(?=\S)(.+?)~~/g, '<s>$1</s>')
+    .replace(/(^|[^*\w])\*(?=\S)(.+?)\*(?![*\w])/g, '$1<i>$2</i>')
+    .replace(/(^|[^_\w])_(?=\S)(.+?)_(?![_\w])/g, '$1<i>$2</i>')
+}
+
+function renderInline(text: string): string {
+  // Code spans and link targets are cut out first so emphasis markers inside them stay literal.
+  const held: string[] = []
+  const hold = (html: string) => `\u0000${held.push(html) - 1}\u0000`
+  let out = text.replace(/`([^`]+)`/g, (_, body: string) => hold(`<code>${escapeHtml(body)}</code>`))
+  out = out.replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (match, label: string, href: string) =>
+    SAFE_LINK.test(href) ? hold(`<a href="${escapeHtml(href)}">${renderEmphasis(escapeHtml(label))}</a>`) : match
+  )
+  out = renderEmphasis(escapeHtml(out))
+  return out.replace(/\u0000(\d+)\u0000/g, (_, i: string) => held[Number(i)] ?? '')
+}
+
+export function markdownToHtml(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n')
+  const blocks: string[] = []
+  let text: string[] = []
+
+  const flushText = () => {
+    // Blank lines at the edges of a run are dropped; inner ones become an empty line.
+    while (text.length && !text[0]?.trim()) text.shift()
+    while (text.length && !text[text.length - 1]?.trim()) text.pop()
+    if (text.length) blocks.push(text.map(renderInline).join('<br />'))
+    text = []
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i] ?? ''
+
+    if (FENCE.test(line)) {
+      flushText()
+      const body: string[] = []
+      while (++i < lines.length && !FENCE.test(lines[i] ?? '')) body.push(lines[i] ?? '')
+      blocks.push(`<pre>${body.map(escapeHtml).join('\n')}</pre>`)
+      continue
+    }
+
+    const list = BULLET.test(line) ? { tag: 'ul', re: BULLET } : NUMBERED.test(line) ? { tag: 'ol', re: NUMBERED } : null
+    if (list) {
+      flushText()
+      const items: string[] = []
+      for (; i < lines.length; i++) {
+        const m = list.re.exec(lines[i] ?? '')
+        if (!m) break
+        items.push(`<li>${renderInline(m[1] ?? '')}</li>`)
+      }
+      i--
+      blocks.push(`<${list.tag}>${items.join('')}</${list.tag}>`)
+      continue
+    }
+
+    if (QUOTE.test(line)) {
+      flushText()
+      const quoted: string[] = []
+      for (; i < lines.length; i++) {
+        const m = QUOTE.exec(lines[i] ?? '')
+        if (!m) break
+        quoted.push(renderInline(m[1] ?? ''))
+      }
+      i--
+      blocks.push(`<blockquote>${quoted.join('<br />')}</blockquote>`)
+      continue
+    }
+
+    text.push(line)
+  }
+  flushText()
+
+  return blocks.join('')
+}
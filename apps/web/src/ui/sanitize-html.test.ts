@@ -0,0 +1,144 @@
+import assert from 'node:assert/strict'
+import { before, describe, it } from 'node:test'
+import { JSDOM } from 'jsdom'
+import { sanitizeHtml } from './sanitize-html'
+
+const ALLOWED = new Set([
+  'a', 'b', 'strong', 'i', 'em', 'u', 's', 'strike', 'del', 'sub', 'sup', 'small', 'big', 'font', 'span', 'p', 'div', 'br',
+  'hr', 'ul', 'ol', 'li', 'blockquote', 'pre', 'code', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'table', 'thead', 'tbody',
+  'tr', 'th', 'td', 'img', 'center'
+])
+
+let dom: JSDOM
+
+before(() => {
+  dom = new JSDOM('')
+  Object.assign(globalThis, { DOMParser: dom.window.DOMParser, Node: dom.window.Node })
+})
+
+const PNG = 'data:image/png;base64,iVBORw0KGgo='
+
+// Re-parses the output and checks every element and attribute against what the sanitizer may emit.
+function assertSafe(html: string) {
+  const out = sanitizeHtml(html)
+  const body = new dom.window.DOMParser().parseFromString(out, 'text/html').body
+  for (const el of Array.from(body.querySelectorAll('*'))) {
+    const tag = el.tagName.toLowerCase()
+    assert.ok(ALLOWED.has(tag), `<${tag}> in ${out}`)
+    for (const attr of Array.from(el.attributes)) {
+      assert.ok(!attr.name.startsWith('on'), `${attr.name} in ${out}`)
+      assert.ok(!['style', 'srcset', 'xlink:href', 'formaction', 'action'].includes(attr.name), `${attr.name} in ${out}`)
+      if (attr.name === 'href') assert.match(attr.value, /^(https?:|mailto:)/i, out)
+      if (attr.name === 'src') assert.match(attr.value, /^data:image\//i, out)
+    }
+  }
+  return out
+}
+
+describe('sanitizeHtml', () => {
+  it('keeps allowed formatting', () => {
+    assert.equal(sanitizeHtml('<b>bold</b> <i>it</i><br><font color="#f00">red</font>'), '<b>bold</b> <i>it</i><br><font color="#f00">red</font>')
+  })
+
+  it('drops scripts with their content', () => {
+    assert.equal(assertSafe('<p>hi<script>alert(1)</script></p>'), '<p>hi</p>')
+    assert.equal(assertSafe('<SCRIPT SRC=https://evil.example/x.js></SCRIPT>ok'), 'ok')
+    assert.equal(assertSafe('<iframe src="javascript:alert(1)"></iframe><object data="x"></object><embed src="x">'), '')
+  })
+
+  it('drops event handler attributes', () => {
+    assert.equal(assertSafe('<b onclick="alert(1)" onmouseover=alert(1)>x</b>'), '<b>x</b>')
+    assert.equal(assertSafe(`<img src="${PNG}" onerror="alert(1)" ONLOAD="alert(1)">`), `<img src="${PNG}">`)
+    assert.equal(assertSafe('<body onload=alert(1)>x</body>'), 'x')
+  })
+
+  it('rejects javascript: links in any spelling', () => {
+    for (const href of [
+      'javascript:alert(1)',
+      ' JaVaScRiPt:alert(1)',
+      'java\tscript:alert(1)',
+      'java&#10;script:alert(1)',
+      '&#106;avascript:alert(1)',
+      '&#x6A;avascript&colon;alert(1)',
+      'vbscript:msgbox(1)'
+    ]) {
+      assert.equal(assertSafe(`<a href="${href}">x</a>`), '<a target="_blank" rel="noopener noreferrer nofollow">x</a>', href)
+    }
+  })
+
+  it('rejects data: and relative links', () => {
+    assert.equal(assertSafe('<a href="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">x</a>'), '<a target="_blank" rel="noopener noreferrer nofollow">x</a>')
+    assert.equal(assertSafe('<a href="//evil.example">x</a>'), '<a target="_blank" rel="noopener noreferrer nofollow">x</a>')
+  })
+
+  it('keeps http(s) and mailto links and forces a safe target', () => {
+    assert.equal(
+      sanitizeHtml('<a href="https://example.com" target="_self" rel="opener">x</a>'),
+      '<a href="https://example.com" target="_blank" rel="noopener noreferrer nofollow">x</a>'
+    )
+    assert.match(sanitizeHtml('<a href="mailto:a@example.com">x</a>'), /href="mailto:a@example.com"/)
+  })
+
+  it('only keeps images with a raster data URL', () => {
+    assert.equal(assertSafe('<img src="https://tracker.example/pixel.png">'), '')
+    assert.equal(assertSafe('<img src="//tracker.example/pixel.png">'), '')
+    assert.equal(assertSafe('<img src="javascript:alert(1)">'), '')
+    assert.equal(assertSafe('<img src="data:image/svg+xml;base64,PHN2ZyBvbmxvYWQ9YWxlcnQoMSk+">'), '')
+    assert.equal(assertSafe('<img src="data:text/html;base64,PHNjcmlwdD4=">'), '')
+    assert.equal(assertSafe(`<img src="${PNG}" alt="a">`), `<img src="${PNG}" alt="a">`)
+  })
+
+  it('drops svg and math payloads entirely', () => {
+    assert.equal(assertSafe('<svg onload=alert(1)><script>alert(1)</script></svg>'), '')
+    assert.equal(assertSafe('<svg><a xlink:href="javascript:alert(1)"><text>x</text></a></svg>'), '')
+    assert.equal(assertSafe('<svg><foreignObject><img src=x onerror=alert(1)></foreignObject></svg>'), '')
+    assert.equal(assertSafe('<math><mi xlink:href="javascript:alert(1)">x</mi></math>'), '')
+    assert.equal(assertSafe('<math><mtext><table><mglyph><style><img src=x onerror=alert(1)>'), '')
+  })
+
+  it('strips style and srcset attributes', () => {
+    assert.equal(assertSafe('<span style="background:url(javascript:alert(1))">x</span>'), '<span>x</span>')
+    assert.equal(assertSafe(`<img src="${PNG}" srcset="https://tracker.example/a.png 1x">`), `<img src="${PNG}">`)
+    assert.equal(assertSafe('<style>body{background:url(https://tracker.example)}</style>x'), 'x')
+    assert.equal(assertSafe('<font color="red;background:url(x)">x</font>'), '<font>x</font>')
+  })
+
+  it('survives nested and malformed markup', () => {
+    for (const html of [
+      '<scr<script>ipt>alert(1)</script>',
+      '<<script>script>alert(1)<</script>/script>',
+      '<a href="https://ok.example"><a href="javascript:alert(1)">x</a></a>',
+      '<div><noscript><p title="</noscript><img src=x onerror=alert(1)>"></noscript></div>',
+      '<template><img src=x onerror=alert(1)></template>',
+      '<!--<img src=x onerror=alert(1)>-->',
+      '<img src=x onerror=alert(1)//',
+      '<b><i>unclosed',
+      '<table><tr><td><form><input onfocus=alert(1) autofocus></form></td></tr></table>',
+      '<button formaction="javascript:alert(1)">x</button>',
+      '<p title="&lt;img src=x onerror=alert(1)&gt;">x</p>'
+    ]) {
+      const out = assertSafe(html)
+      assert.doesNotMatch(out, /<(script|img[^>]*onerror|iframe|svg|math|input|button|form)/i, html)
+    }
+  })
+
+  it('keeps markup-looking text escaped', () => {
+    assert.equal(sanitizeHtml('&lt;script&gt;alert(1)&lt;/script&gt;'), '&lt;script&gt;alert(1)&lt;/script&gt;')
+    assert.equal(sanitizeHtml('<p title="&lt;img src=x onerror=alert(1)&gt;">x</p>'), '<p>x</p>')
+  })
+
+  it('only linkifies http(s) URLs', () => {
+    assert.equal(
+      sanitizeHtml('see https://example.com/a. javascript:alert(1)', { linkify: true }),
+      'see <a href="https://example.com/a" target="_blank" rel="noopener noreferrer nofollow">https://example.com/a</a>. javascript:alert(1)'
+    )
+    assert.equal(
+      sanitizeHtml('<a href="https://a.example">https://b.example</a>', { linkify: true }),
+      '<a href="https://a.example" target="_blank" rel="noopener noreferrer nofollow">https://b.example</a>'
+    )
+  })
+
+  it('replaces oversized images', () => {
+    assert.equal(sanitizeHtml(`<img src="${PNG}">`, { maxImageLength: 10 }), '[image too large]')
+  })
+})
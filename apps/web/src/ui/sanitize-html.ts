@@ -0,0 +1,122 @@
+// Mumble comments and channel descriptions are HTML written by other users. Only a small
+// formatting subset is kept; everything else is unwrapped (text kept) or dropped.
+
+const ALLOWED_TAGS = new Set([
+  'a', 'b', 'strong', 'i', 'em', 'u', 's', 'strike', 'del', 'sub', 'sup', 'small', 'big', 'font', 'span', 'p', 'div', 'br',
+  'hr', 'ul', 'ol', 'li', 'blockquote', 'pre', 'code', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'table', 'thead', 'tbody',
+  'tr', 'th', 'td', 'img', 'center'
+])
+
+// Removed together with their content.
+const DROPPED_TAGS = new Set(['script', 'style', 'iframe', 'object', 'embed', 'template', 'noscript', 'head', 'title', 'meta', 'link', 'svg', 'math'])
+
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href', 'title'],
+  img: ['src', 'alt', 'title', 'width', 'height'],
+  font: ['color'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan']
+}
+
+const SAFE_LINK = /^(https?:|mailto:)/i
+// Avatars and inline pictures arrive as data URLs; remote images would leak the viewer's address.
+const SAFE_IMAGE = /^data:image\/(png|jpe?g|gif|webp);base64,[a-z0-9+/=\s]+$/i
+// Bare URLs in text; trailing punctuation is trimmed off afterwards.
+const URL_IN_TEXT = /\bhttps?:\/\/[^\s<>"']+/gi
+
+export type SanitizeOptions = {
+  // Inline images with a longer data URL are replaced by a placeholder (chat uses the server's image_message_length).
+  maxImageLength?: number | null
+  // Turns bare http(s) URLs in text into links.
+  linkify?: boolean
+}
+
+function linkifyText(text: string, doc: Document): Node {
+  const fragment = doc.createDocumentFragment()
+  let last = 0
+  for (const match of text.matchAll(URL_IN_TEXT)) {
+    const url = match[0].replace(/[.,;:!?)\]]+$/, '')
+    const start = match.index ?? 0
+    if (start > last) fragment.appendChild(doc.createTextNode(text.slice(last, start)))
+    const a = doc.createElement('a')
+    a.setAttribute('href', url)
+    a.setAttribute('target', '_blank')
+    a.setAttribute('rel', 'noopener noreferrer nofollow')
+    a.textContent = url
+    fragment.appendChild(a)
+    last = start + url.length
+  }
+  if (last < text.length) fragment.appendChild(doc.createTextNode(text.slice(last)))
+  return fragment
+}
+
+function sanitizeNode(node: Node, doc: Document, opts: SanitizeOptions, inLink: boolean): Node | null {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const text = node.textContent ?? ''
+    return opts.linkify && !inLink ? linkifyText(text, doc) : doc.createTextNode(text)
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return null
+
+  const el = node as Element
+  const tag = el.tagName.toLowerCase()
+  if (DROPPED_TAGS.has(tag)) return null
+
+  const children = Array.from(el.childNodes)
+    .map((child) => sanitizeNode(child, doc, opts, inLink || tag === 'a'))
+    .filter((child): child is Node => child != null)
+
+  if (!ALLOWED_TAGS.has(tag)) {
+    const fragment = doc.createDocumentFragment()
+    for (const child of children) fragment.appendChild(child)
+    return fragment
+  }
+
+  const out = doc.createElement(tag)
+  for (const name of ALLOWED_ATTRIBUTES[tag] ?? []) {
+    const value = el.getAttribute(name)
+    if (value == null) continue
+    if (name === 'href' && !SAFE_LINK.test(value.trim())) continue
+    if (name === 'src' && !SAFE_IMAGE.test(value.trim())) continue
+    if (name === 'color' && !/^(#[0-9a-f]{3,8}|[a-z]+)$/i.test(value.trim())) continue
+    out.setAttribute(name, value.trim())
+  }
+  if (tag === 'img' && !out.hasAttribute('src')) return null
+  if (tag === 'img' && opts.maxImageLength && (out.getAttribute('src') ?? '').length > opts.maxImageLength) {
+    return doc.createTextNode('[image too large]')
+  }
+  if (tag === 'a') {
+    out.setAttribute('target', '_blank')
+    out.setAttribute('rel', 'noopener noreferrer nofollow')
+  }
+  for (const child of children) out.appendChild(child)
+  return out
+}
+
+export function sanitizeHtml(html: string, opts: SanitizeOptions = {}): string {
+  if (typeof DOMParser === 'undefined') return ''
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  const container = doc.createElement('div')
+  for (const child of Array.from(doc.body.childNodes)) {
+    const clean = sanitizeNode(child, doc, opts, false)
+    if (clean) container.appendChild(clean)
+  }
+  return container.innerHTML
+}
+
+// Outgoing chat is HTML too; plain composer text is escaped so it shows up verbatim in other clients.
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '<br />')
+}
+
+// One-line preview of a message (search results); pictures become a marker.
+export function htmlToText(html: string): string {
+  if (typeof DOMParser === 'undefined') return html
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  for (const img of Array.from(doc.body.querySelectorAll('img'))) img.replaceWith('[image]')
+  return (doc.body.textContent ?? '').replace(/\s+/g, ' ').trim()
+}